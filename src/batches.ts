@@ -0,0 +1,81 @@
+// src/batches.ts
+
+import { BatchEndpoint, BatchOutputLine, BatchRequest, BatchResult, BatchStatus } from './types';
+
+// Statuses after which a batch no longer changes
+export const TERMINAL_BATCH_STATUSES: BatchStatus[] = [
+  'completed',
+  'failed',
+  'expired',
+  'cancelled',
+];
+
+/**
+ * Builds the JSONL input file of a batch, one POST request per line.
+ * @param {BatchEndpoint} endpoint - The endpoint every request targets.
+ * @param {BatchRequest<T>[]} requests - The requests, with unique custom ids.
+ * @returns {string}
+ * @throws {Error} If there are no requests or a custom id is missing or repeated.
+ */
+export function buildBatchInput<T>(endpoint: BatchEndpoint, requests: BatchRequest<T>[]): string {
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new Error('A batch needs at least one request');
+  }
+
+  const ids = new Set<string>();
+  return requests
+    .map(({ custom_id, body }) => {
+      if (typeof custom_id !== 'string' || custom_id === '') {
+        throw new Error('Every batch request needs a custom_id');
+      }
+      if (ids.has(custom_id)) {
+        throw new Error(`Duplicate custom_id in batch: ${custom_id}`);
+      }
+      ids.add(custom_id);
+      return JSON.stringify({ custom_id, method: 'POST', url: endpoint, body });
+    })
+    .join('\n');
+}
+
+/**
+ * Parses a JSONL file, skipping blank lines.
+ * @param {string} content - The file content.
+ * @returns {T[]}
+ */
+export function parseJsonLines<T>(content: string): T[] {
+  return content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => JSON.parse(line) as T);
+}
+
+/**
+ * Maps the lines of batch output and error files to results keyed by custom id.
+ * Requests that got an error response carry the error of its body.
+ * @param {BatchOutputLine[]} lines - The lines of the output and error files.
+ * @returns {Record<string, BatchResult<T>>}
+ */
+export function collectBatchResults<T>(lines: BatchOutputLine[]): Record<string, BatchResult<T>> {
+  const results: Record<string, BatchResult<T>> = {};
+  for (const { custom_id, response, error } of lines) {
+    const result: BatchResult<T> = { custom_id };
+    if (response) {
+      result.status_code = response.status_code;
+      result.request_id = response.request_id;
+      if (response.status_code < 400) {
+        result.body = response.body as T;
+      } else {
+        const { code, message } = response.body?.error || {};
+        result.error = {
+          code,
+          message: message || `Request failed with status ${response.status_code}`,
+        };
+      }
+    }
+    if (error) {
+      result.error = error;
+    }
+    results[custom_id] = result;
+  }
+  return results;
+}
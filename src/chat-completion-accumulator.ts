@@ -0,0 +1,192 @@
+// src/chat-completion-accumulator.ts
+
+import {
+  ChatCompletionMessageToolCall,
+  ChatCompletionStreamResponse,
+  ChatMessage,
+  ChatRole,
+  CompletionUsage,
+  FunctionCall,
+  StreamedChatCompletionResponse,
+} from './types';
+
+interface ChoiceState {
+  role: ChatRole;
+  content: string | null;
+  refusal: string | null;
+  toolCalls: Map<number, ChatCompletionMessageToolCall>;
+  functionCall?: FunctionCall;
+  finishReason: string | null;
+}
+
+/**
+ * Reassembles streamed chat completion chunks into complete messages,
+ * stitching together tool-call fragments by their index.
+ * @example
+ * const accumulator = new ChatCompletionAccumulator();
+ * for await (const chunk of stream) {
+ *   accumulator.add(chunk);
+ * }
+ * const message = accumulator.getMessage();
+ */
+export class ChatCompletionAccumulator {
+  private choices: Map<number, ChoiceState> = new Map();
+  private id = '';
+  private created = 0;
+  private model = '';
+  private systemFingerprint?: string;
+  private usage?: CompletionUsage;
+
+  /**
+   * Consumes a whole stream and returns the populated accumulator.
+   * @param {AsyncIterable<ChatCompletionStreamResponse>} stream - The chat completion stream.
+   * @returns {Promise<ChatCompletionAccumulator>}
+   * @example
+   * const message = (await ChatCompletionAccumulator.fromStream(stream)).getMessage();
+   */
+  static async fromStream(
+    stream: AsyncIterable<ChatCompletionStreamResponse>
+  ): Promise<ChatCompletionAccumulator> {
+    const accumulator = new ChatCompletionAccumulator();
+    for await (const chunk of stream) {
+      accumulator.add(chunk);
+    }
+    return accumulator;
+  }
+
+  /**
+   * Merges a single stream chunk into the accumulated state.
+   * @param {ChatCompletionStreamResponse} chunk - The chunk to merge.
+   */
+  add(chunk: ChatCompletionStreamResponse): void {
+    this.id = this.id || chunk.id;
+    this.created = this.created || chunk.created;
+    this.model = this.model || chunk.model;
+    this.systemFingerprint = this.systemFingerprint || chunk.system_fingerprint;
+
+    // Usage arrives on a final chunk with no choices
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+
+    for (const choice of chunk.choices || []) {
+      const state = this.getChoiceState(choice.index);
+      const delta = choice.delta || {};
+
+      if (delta.role) {
+        state.role = delta.role;
+      }
+
+      if (typeof delta.content === 'string') {
+        state.content = (state.content ?? '') + delta.content;
+      }
+
+      if (typeof delta.refusal === 'string') {
+        state.refusal = (state.refusal ?? '') + delta.refusal;
+      }
+
+      for (const toolCallDelta of delta.tool_calls || []) {
+        let toolCall = state.toolCalls.get(toolCallDelta.index);
+        if (!toolCall) {
+          toolCall = { id: '', type: 'function', function: { name: '', arguments: '' } };
+          state.toolCalls.set(toolCallDelta.index, toolCall);
+        }
+        if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+        if (toolCallDelta.type) toolCall.type = toolCallDelta.type;
+        if (toolCallDelta.function?.name) toolCall.function.name += toolCallDelta.function.name;
+        if (toolCallDelta.function?.arguments) {
+          toolCall.function.arguments += toolCallDelta.function.arguments;
+        }
+      }
+
+      if (delta.function_call) {
+        state.functionCall = state.functionCall || { name: '', arguments: '' };
+        state.functionCall.name += delta.function_call.name || '';
+        state.functionCall.arguments += delta.function_call.arguments || '';
+      }
+
+      if (choice.finish_reason) {
+        state.finishReason = choice.finish_reason;
+      }
+    }
+  }
+
+  /**
+   * Returns the reassembled tool calls for a choice, ordered by index.
+   * @param {number} index - The choice index (default 0).
+   * @returns {ChatCompletionMessageToolCall[]}
+   */
+  getToolCalls(index = 0): ChatCompletionMessageToolCall[] {
+    const state = this.choices.get(index);
+    if (!state) {
+      return [];
+    }
+    return Array.from(state.toolCalls.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, toolCall]) => toolCall);
+  }
+
+  /**
+   * Returns the reassembled assistant message for a choice.
+   * @param {number} index - The choice index (default 0).
+   * @returns {ChatMessage}
+   */
+  getMessage(index = 0): ChatMessage {
+    const state = this.getChoiceState(index);
+    const toolCalls = this.getToolCalls(index);
+
+    return {
+      role: state.role,
+      content: state.content,
+      ...(state.refusal !== null ? { refusal: state.refusal } : {}),
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      ...(state.functionCall ? { function_call: state.functionCall } : {}),
+    };
+  }
+
+  /**
+   * Returns the finish reason for a choice, or null if the stream has not finished it.
+   * @param {number} index - The choice index (default 0).
+   * @returns {string | null}
+   */
+  getFinishReason(index = 0): string | null {
+    return this.choices.get(index)?.finishReason ?? null;
+  }
+
+  /**
+   * Rebuilds a chat completion response from the chunks received so far.
+   * @returns {StreamedChatCompletionResponse}
+   */
+  toResponse(): StreamedChatCompletionResponse {
+    const indexes = Array.from(this.choices.keys()).sort((a, b) => a - b);
+
+    return {
+      id: this.id,
+      object: 'chat.completion',
+      created: this.created,
+      model: this.model,
+      choices: indexes.map((index) => ({
+        index,
+        message: this.getMessage(index),
+        finish_reason: this.getFinishReason(index),
+      })),
+      ...(this.usage ? { usage: this.usage } : {}),
+      ...(this.systemFingerprint ? { system_fingerprint: this.systemFingerprint } : {}),
+    };
+  }
+
+  private getChoiceState(index: number): ChoiceState {
+    let state = this.choices.get(index);
+    if (!state) {
+      state = {
+        role: 'assistant',
+        content: null,
+        refusal: null,
+        toolCalls: new Map(),
+        finishReason: null,
+      };
+      this.choices.set(index, state);
+    }
+    return state;
+  }
+}
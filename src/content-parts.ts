@@ -0,0 +1,146 @@
+// src/content-parts.ts
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  ChatCompletionContentPart,
+  ChatCompletionContentPartImage,
+  ChatCompletionContentPartInputAudio,
+  ChatCompletionContentPartText,
+  ChatMessageContent,
+} from './types';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+const AUDIO_FORMATS: Record<string, ChatCompletionContentPartInputAudio['input_audio']['format']> =
+  {
+    '.wav': 'wav',
+    '.mp3': 'mp3',
+  };
+
+/**
+ * Builds a text content part.
+ * @param {string} text - The text.
+ * @returns {ChatCompletionContentPartText}
+ * @example
+ * const part = textPart('What is in this image?');
+ */
+export function textPart(text: string): ChatCompletionContentPartText {
+  return { type: 'text', text };
+}
+
+/**
+ * Builds an image content part from a URL or data URL.
+ * @param {string} url - The image URL.
+ * @param {'auto' | 'low' | 'high'} detail - The image detail level.
+ * @returns {ChatCompletionContentPartImage}
+ * @example
+ * const part = imageUrlPart('https://example.com/cat.png', 'low');
+ */
+export function imageUrlPart(
+  url: string,
+  detail?: ChatCompletionContentPartImage['image_url']['detail']
+): ChatCompletionContentPartImage {
+  return { type: 'image_url', image_url: { url, ...(detail ? { detail } : {}) } };
+}
+
+/**
+ * Builds an image content part from a local file, embedded as a base64 data URL.
+ * @param {string} filePath - Path to a PNG, JPEG, GIF or WebP image.
+ * @param {'auto' | 'low' | 'high'} detail - The image detail level.
+ * @returns {Promise<ChatCompletionContentPartImage>}
+ * @throws {Error} If the file extension is not a supported image type.
+ * @example
+ * const part = await imagePartFromFile('path/to/photo.jpg', 'high');
+ */
+export async function imagePartFromFile(
+  filePath: string,
+  detail?: ChatCompletionContentPartImage['image_url']['detail']
+): Promise<ChatCompletionContentPartImage> {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`Unsupported image type for "${filePath}"; expected PNG, JPEG, GIF or WebP`);
+  }
+
+  const data = await fs.readFile(filePath);
+  return imageUrlPart(`data:${mimeType};base64,${data.toString('base64')}`, detail);
+}
+
+/**
+ * Builds an audio content part from a local WAV or MP3 file.
+ * @param {string} filePath - Path to the audio file.
+ * @returns {Promise<ChatCompletionContentPartInputAudio>}
+ * @throws {Error} If the file extension is not a supported audio format.
+ * @example
+ * const part = await audioPartFromFile('path/to/question.wav');
+ */
+export async function audioPartFromFile(
+  filePath: string
+): Promise<ChatCompletionContentPartInputAudio> {
+  const format = AUDIO_FORMATS[path.extname(filePath).toLowerCase()];
+  if (!format) {
+    throw new Error(`Unsupported audio format for "${filePath}"; expected WAV or MP3`);
+  }
+
+  const data = await fs.readFile(filePath);
+  return { type: 'input_audio', input_audio: { data: data.toString('base64'), format } };
+}
+
+/**
+ * Checks that a value is a well-formed content part.
+ * @param {unknown} part - The value to check.
+ * @returns {boolean}
+ */
+export function isValidContentPart(part: unknown): part is ChatCompletionContentPart {
+  const candidate = part as ChatCompletionContentPart;
+  if (!candidate || typeof candidate !== 'object') {
+    return false;
+  }
+
+  switch (candidate.type) {
+    case 'text':
+      return typeof candidate.text === 'string';
+    case 'image_url':
+      return typeof candidate.image_url?.url === 'string';
+    case 'input_audio':
+      return (
+        typeof candidate.input_audio?.data === 'string' &&
+        ['wav', 'mp3'].includes(candidate.input_audio.format)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns the text of a message content, with placeholders for non-text parts.
+ * @param {ChatMessageContent | null} content - The message content.
+ * @returns {string}
+ */
+export function contentToText(content: ChatMessageContent | null): string {
+  if (content === null) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map((part) => {
+      switch (part.type) {
+        case 'text':
+          return part.text;
+        case 'image_url':
+          return '[image]';
+        case 'input_audio':
+          return '[audio]';
+      }
+    })
+    .join(' ');
+}
@@ -0,0 +1,108 @@
+// src/context-store.ts
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ContextEntry, ContextStore } from './types';
+
+/**
+ * Keeps conversation histories in process memory.
+ * @example
+ * const client = new OpenAIClient(apiKey, { contextStore: new InMemoryContextStore() });
+ */
+export class InMemoryContextStore implements ContextStore {
+  private conversations: Map<string, ContextEntry[]> = new Map();
+
+  async load(conversationId: string): Promise<ContextEntry[]> {
+    return [...(this.conversations.get(conversationId) || [])];
+  }
+
+  async save(conversationId: string, entries: ContextEntry[]): Promise<void> {
+    this.conversations.set(conversationId, [...entries]);
+  }
+
+  async append(conversationId: string, entries: ContextEntry[]): Promise<void> {
+    const existing = this.conversations.get(conversationId) || [];
+    this.conversations.set(conversationId, [...existing, ...entries]);
+  }
+
+  async clear(conversationId: string): Promise<void> {
+    this.conversations.delete(conversationId);
+  }
+}
+
+/**
+ * Stores each conversation history as a JSON file in a directory.
+ * Writes to the same conversation are serialized and replace the file atomically.
+ * @example
+ * const client = new OpenAIClient(apiKey, {
+ *   contextStore: new FileContextStore('./conversations'),
+ * });
+ */
+export class FileContextStore implements ContextStore {
+  private directory: string;
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async load(conversationId: string): Promise<ContextEntry[]> {
+    return this.withLock(conversationId, () => this.read(conversationId));
+  }
+
+  async save(conversationId: string, entries: ContextEntry[]): Promise<void> {
+    return this.withLock(conversationId, () => this.write(conversationId, entries));
+  }
+
+  async append(conversationId: string, entries: ContextEntry[]): Promise<void> {
+    return this.withLock(conversationId, async () => {
+      const existing = await this.read(conversationId);
+      await this.write(conversationId, [...existing, ...entries]);
+    });
+  }
+
+  async clear(conversationId: string): Promise<void> {
+    return this.withLock(conversationId, () =>
+      fs.rm(this.filePath(conversationId), { force: true })
+    );
+  }
+
+  private filePath(conversationId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(conversationId)}.json`);
+  }
+
+  private async read(conversationId: string): Promise<ContextEntry[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(conversationId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async write(conversationId: string, entries: ContextEntry[]): Promise<void> {
+    const filePath = this.filePath(conversationId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entries, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private async withLock<T>(conversationId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(conversationId) || Promise.resolve();
+    const result = previous.catch(() => undefined).then(operation);
+    const settled = result.catch(() => undefined);
+
+    this.locks.set(conversationId, settled);
+    settled.then(() => {
+      if (this.locks.get(conversationId) === settled) {
+        this.locks.delete(conversationId);
+      }
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,83 @@
+// src/context-summarization.ts
+
+import { contentToText } from './content-parts';
+import { groupTurns } from './context-trimming';
+import { ContextEntry } from './types';
+
+export const DEFAULT_SUMMARY_PROMPT =
+  'Summarize the conversation below between a user and an assistant. Keep the facts, ' +
+  'decisions, names, preferences and open questions that later turns may rely on. ' +
+  'Be concise and write in the third person.';
+
+// Summary entries are tagged so that later summarizations fold them in instead of pinning them
+export const SUMMARY_ENTRY_NAME = 'conversation_summary';
+
+export interface SummarySplit {
+  /**
+   * Leading system entries (e.g. instructions) that are always kept verbatim.
+   */
+  pinned: ContextEntry[];
+
+  /**
+   * Entries to be replaced by the summary, including earlier summaries.
+   */
+  older: ContextEntry[];
+
+  /**
+   * The most recent turns, kept verbatim.
+   */
+  recent: ContextEntry[];
+}
+
+/**
+ * Splits a history into pinned instructions, older entries to summarize and recent turns.
+ * @param {ContextEntry[]} history - The conversation history.
+ * @param {number} keepRecentTurns - The number of recent turns kept verbatim.
+ * @returns {SummarySplit}
+ */
+export function splitForSummary(history: ContextEntry[], keepRecentTurns: number): SummarySplit {
+  let pinnedCount = 0;
+  while (
+    pinnedCount < history.length &&
+    history[pinnedCount].role === 'system' &&
+    history[pinnedCount].name !== SUMMARY_ENTRY_NAME
+  ) {
+    pinnedCount++;
+  }
+
+  const rest = history.slice(pinnedCount);
+  const turns = groupTurns(rest);
+  const recentTurns = keepRecentTurns > 0 ? turns.slice(-keepRecentTurns) : [];
+  const recentStart = recentTurns.length > 0 ? recentTurns[0][0] : rest.length;
+
+  return {
+    pinned: history.slice(0, pinnedCount),
+    older: rest.slice(0, recentStart),
+    recent: rest.slice(recentStart),
+  };
+}
+
+/**
+ * Renders history entries as a plain-text transcript for the summary request.
+ * @param {ContextEntry[]} entries - The entries to render.
+ * @returns {string}
+ */
+export function formatTranscript(entries: ContextEntry[]): string {
+  return entries
+    .map((entry) => {
+      if (entry.name === SUMMARY_ENTRY_NAME) {
+        return `Earlier summary: ${contentToText(entry.content)}`;
+      }
+
+      const text = contentToText(entry.content);
+      const lines = text ? [`${entry.role}: ${text}`] : [];
+      for (const toolCall of entry.tool_calls || []) {
+        lines.push(
+          `${entry.role} called ${toolCall.function.name} with ${toolCall.function.arguments}`
+        );
+      }
+      return lines.join('\n');
+    })
+    .filter(Boolean)
+    .join('\n');
+}
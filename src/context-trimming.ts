@@ -0,0 +1,108 @@
+// src/context-trimming.ts
+
+import { countMessageTokens } from './token-counter';
+import {
+  ChatMessage,
+  ContextTrimmingOptions,
+  ContextTrimmingParams,
+  ContextTrimmingStrategy,
+  ContextTrimmingStrategyName,
+} from './types';
+
+// Groups non-system messages into turns, each starting at a user message, so that
+// assistant tool calls are never separated from their tool results.
+export const groupTurns = (messages: ChatMessage[]): number[][] => {
+  const turns: number[][] = [];
+
+  messages.forEach((message, index) => {
+    if (message.role === 'system') return;
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([]);
+    }
+    turns[turns.length - 1].push(index);
+  });
+
+  return turns;
+};
+
+// System messages are always kept, in their original position
+const selectTurns = (messages: ChatMessage[], turns: number[][]): ChatMessage[] => {
+  const kept = new Set(turns.flat());
+  return messages.filter((message, index) => message.role === 'system' || kept.has(index));
+};
+
+// Drops turns from the start of `turns` until the budget fits, always keeping the last turn
+const fitToBudget = (
+  messages: ChatMessage[],
+  pinned: number[][],
+  turns: number[][],
+  params: ContextTrimmingParams
+): ChatMessage[] => {
+  let start = 0;
+  let selected = selectTurns(messages, [...pinned, ...turns]);
+
+  if (params.maxTokens === undefined) {
+    return selected;
+  }
+
+  while (start < turns.length - 1 && params.countTokens(selected) > params.maxTokens) {
+    start++;
+    selected = selectTurns(messages, [...pinned, ...turns.slice(start)]);
+  }
+
+  return selected;
+};
+
+const dropOldest: ContextTrimmingStrategy = (messages, params) =>
+  fitToBudget(messages, [], groupTurns(messages), params);
+
+const slidingWindow: ContextTrimmingStrategy = (messages, params) => {
+  const turns = groupTurns(messages);
+  const window = params.maxTurns !== undefined ? turns.slice(-Math.max(params.maxTurns, 1)) : turns;
+  return fitToBudget(messages, [], window, params);
+};
+
+const keepFirstAndLast: ContextTrimmingStrategy = (messages, params) => {
+  const [first, ...rest] = groupTurns(messages);
+  return rest.length === 0 ? messages : fitToBudget(messages, [first], rest, params);
+};
+
+const STRATEGIES: Record<ContextTrimmingStrategyName, ContextTrimmingStrategy> = {
+  'drop-oldest': dropOldest,
+  'sliding-window': slidingWindow,
+  'keep-first-and-last': keepFirstAndLast,
+};
+
+/**
+ * Trims chat messages with the configured strategy. Built-in strategies work on whole
+ * turns (a user message and everything up to the next one), always keep system
+ * messages and the latest turn, and drop older turns until the token budget fits:
+ * - `drop-oldest`: drops the oldest turns.
+ * - `sliding-window`: keeps at most `maxTurns` recent turns, then applies the budget.
+ * - `keep-first-and-last`: keeps the first turn and as many recent turns as fit.
+ * @param {ChatMessage[]} messages - The messages to trim.
+ * @param {ContextTrimmingOptions} options - The trimming configuration.
+ * @param {string} model - The model whose encoding is used to count tokens.
+ * @returns {ChatMessage[]} The trimmed messages.
+ * @example
+ * const trimmed = trimMessages(messages, { strategy: 'drop-oldest', maxTokens: 4000 }, 'gpt-4o');
+ */
+export function trimMessages(
+  messages: ChatMessage[],
+  options: ContextTrimmingOptions,
+  model: string
+): ChatMessage[] {
+  const { strategy = 'drop-oldest', maxTokens, maxTurns } = options;
+  const trim = typeof strategy === 'function' ? strategy : STRATEGIES[strategy];
+
+  if (!trim) {
+    throw new Error(`Unknown context trimming strategy "${strategy}"`);
+  }
+
+  return trim(messages, {
+    model,
+    maxTokens,
+    maxTurns,
+    countTokens: (candidate) => countMessageTokens(candidate, model),
+  });
+}
@@ -0,0 +1,383 @@
+// src/conversation.ts
+
+import { randomUUID } from 'crypto';
+import { isValidContentPart } from './content-parts';
+import { ChatCompletionStream } from './streams';
+import {
+  ChatCompletionResponse,
+  ChatCompletionContentPart,
+  ChatMessage,
+  ContextEntry,
+  ContextStore,
+  ContextSummarizationOptions,
+  ContextTrimmingOptions,
+  ConversationDefaults,
+  ConversationOptions,
+  CreateChatCompletionOptions,
+  RequestOptions,
+  RunToolsOptions,
+} from './types';
+
+const CONTEXT_ROLES = ['system', 'user', 'assistant', 'tool', 'function'];
+
+/**
+ * Operations a conversation delegates to the client that created it.
+ */
+export interface ConversationBackend {
+  createChatCompletion(
+    conversation: Conversation,
+    options: CreateChatCompletionOptions,
+    requestOptions?: RequestOptions
+  ): Promise<ChatCompletionResponse | ChatCompletionStream>;
+  runTools(
+    conversation: Conversation,
+    options: RunToolsOptions,
+    requestOptions?: RequestOptions
+  ): Promise<ChatCompletionResponse>;
+}
+
+/**
+ * A chat session with its own history, system prompt and default options.
+ * Create one with `client.createConversation()`.
+ * @example
+ * const conversation = client.createConversation({
+ *   systemPrompt: 'You are a helpful assistant.',
+ *   defaults: { model: 'gpt-4o' },
+ * });
+ * const response = await conversation.send('Tell me a joke.');
+ */
+export class Conversation {
+  readonly id: string;
+  private context: ContextEntry[] = [];
+  private systemPrompt?: string;
+  private defaults: ConversationDefaults;
+  private contextTrimming?: ContextTrimmingOptions;
+  private contextSummarization?: ContextSummarizationOptions;
+  private contextStore?: ContextStore;
+  private seedContext?: ContextEntry[];
+  private loaded = false;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private writeError?: Error;
+  private backend: ConversationBackend;
+
+  constructor(backend: ConversationBackend, options: ConversationOptions = {}) {
+    this.backend = backend;
+    this.id = options.id || randomUUID();
+    this.systemPrompt = options.systemPrompt;
+    this.defaults = { ...options.defaults };
+    this.contextTrimming = options.contextTrimming;
+    this.contextSummarization = options.contextSummarization;
+    this.contextStore = options.contextStore;
+
+    if (options.context && this.contextStore) {
+      // The store may already hold this conversation, so the seed is only stored if it has none
+      assertValidContextEntries(options.context);
+      this.seedContext = [...options.context];
+      this.context = [...options.context];
+    } else if (options.context) {
+      this.addBatchToContext(options.context);
+    }
+  }
+
+  /**
+   * Adds a single entry to the conversation history.
+   * @param {ContextEntry} contextEntry - An object with role and content properties.
+   * @throws {Error} If the contextEntry is invalid.
+   */
+  addToContext(contextEntry: ContextEntry): void {
+    this.addBatchToContext([contextEntry]);
+  }
+
+  /**
+   * Adds multiple entries to the conversation history. No entry is added if any is invalid.
+   * @param {ContextEntry[]} contextEntries - An array of context entries.
+   * @throws {Error} If any context entry is invalid.
+   */
+  addBatchToContext(contextEntries: ContextEntry[]): void {
+    assertValidContextEntries(contextEntries);
+    this.context.push(...contextEntries);
+    this.persist((store) => store.append(this.id, contextEntries));
+  }
+
+  /**
+   * Replaces the whole conversation history.
+   * @param {ContextEntry[]} contextEntries - The new history.
+   * @throws {Error} If any context entry is invalid.
+   */
+  replaceContext(contextEntries: ContextEntry[]): void {
+    assertValidContextEntries(contextEntries);
+    this.context = [...contextEntries];
+    this.seedContext = undefined;
+    this.persist((store) => store.save(this.id, contextEntries));
+  }
+
+  /**
+   * Retrieves the conversation history (without the system prompt).
+   * @returns {ContextEntry[]} The current history.
+   */
+  getContext(): ContextEntry[] {
+    return this.context;
+  }
+
+  /**
+   * Clears the conversation history. The system prompt is kept.
+   */
+  clearContext(): void {
+    this.context = [];
+    this.seedContext = undefined;
+    this.persist((store) => store.clear(this.id));
+  }
+
+  /**
+   * Reloads the history from the context store, after writing any pending changes.
+   * Requests load the history automatically the first time; call this to read it eagerly.
+   * The `context` the conversation was created with is stored only if the store has no
+   * history for its id.
+   * @returns {Promise<ContextEntry[]>} The loaded history.
+   * @example
+   * const history = await client.createConversation({ id: 'user-42' }).load();
+   */
+  async load(): Promise<ContextEntry[]> {
+    await this.flush();
+    if (this.contextStore) {
+      await this.writeSeed(this.contextStore);
+      this.context = await this.contextStore.load(this.id);
+    }
+    this.loaded = true;
+    return this.context;
+  }
+
+  /**
+   * Waits for pending context store writes.
+   * @throws {Error} The first write error since the last flush.
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+    if (this.writeError) {
+      const error = this.writeError;
+      this.writeError = undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Brings the history in line with the context store before a request:
+   * writes pending changes and loads the stored history the first time.
+   */
+  async sync(): Promise<void> {
+    if (this.contextStore && !this.loaded) {
+      await this.load();
+    } else {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Sets or removes the system prompt sent ahead of the history.
+   * @param {string | undefined} systemPrompt - The new system prompt.
+   */
+  setSystemPrompt(systemPrompt: string | undefined): void {
+    this.systemPrompt = systemPrompt;
+  }
+
+  /**
+   * Retrieves the system prompt.
+   * @returns {string | undefined}
+   */
+  getSystemPrompt(): string | undefined {
+    return this.systemPrompt;
+  }
+
+  /**
+   * Retrieves the messages sent ahead of each request: the system prompt followed by the history.
+   * @returns {ContextEntry[]}
+   */
+  getMessages(): ContextEntry[] {
+    return this.systemPrompt
+      ? [{ role: 'system', content: this.systemPrompt }, ...this.context]
+      : [...this.context];
+  }
+
+  /**
+   * Retrieves the trimming configuration specific to this conversation, if any.
+   * @returns {ContextTrimmingOptions | undefined}
+   */
+  getContextTrimming(): ContextTrimmingOptions | undefined {
+    return this.contextTrimming;
+  }
+
+  /**
+   * Retrieves the summarization configuration specific to this conversation, if any.
+   * @returns {ContextSummarizationOptions | undefined}
+   */
+  getContextSummarization(): ContextSummarizationOptions | undefined {
+    return this.contextSummarization;
+  }
+
+  /**
+   * Sends a user message and records both it and the assistant reply in the history.
+   * Nothing is recorded if the request fails.
+   * @param {string | ChatCompletionContentPart[] | ChatMessage} input - The user message, or its text or content parts.
+   * @param {ConversationDefaults} options - Per-turn overrides of the conversation defaults.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<ChatCompletionResponse>}
+   * @example
+   * const response = await conversation.send('What did I just ask you?');
+   */
+  async send(
+    input: string | ChatCompletionContentPart[] | ChatMessage,
+    options: ConversationDefaults = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    const message: ChatMessage =
+      typeof input === 'string' || Array.isArray(input) ? { role: 'user', content: input } : input;
+    if (!isValidContextEntry(message)) {
+      throw new Error(
+        'Message must be a string, an array of content parts or a valid chat message'
+      );
+    }
+
+    const response = (await this.backend.createChatCompletion(
+      this,
+      this.buildOptions(options, [message]),
+      requestOptions
+    )) as ChatCompletionResponse;
+
+    const reply = response.choices[0]?.message;
+    this.addBatchToContext(reply ? [message, replyToContextEntry(reply)] : [message]);
+    await this.flush();
+
+    return response;
+  }
+
+  /**
+   * Creates a chat completion with the conversation history and defaults
+   * without recording anything in the history.
+   * @param {Partial<CreateChatCompletionOptions>} options - Chat completion options.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<ChatCompletionResponse | ChatCompletionStream>}
+   */
+  async createChatCompletion(
+    options: Partial<CreateChatCompletionOptions> = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ChatCompletionResponse | ChatCompletionStream> {
+    const { messages = [], ...rest } = options;
+    return this.backend.createChatCompletion(
+      this,
+      this.buildOptions(rest, messages),
+      requestOptions
+    );
+  }
+
+  /**
+   * Runs the tool loop using this conversation's history, recording every step in it.
+   * @param {Partial<RunToolsOptions>} options - Chat completion options plus `maxIterations`.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<ChatCompletionResponse>}
+   */
+  async runTools(
+    options: Partial<RunToolsOptions> = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    const { messages = [], ...rest } = options;
+    return this.backend.runTools(this, this.buildOptions(rest, messages), requestOptions);
+  }
+
+  // Store writes run in order; failures are reported by the next flush
+  private persist(operation: (store: ContextStore) => Promise<void>): void {
+    const store = this.contextStore;
+    if (!store) {
+      return;
+    }
+    this.pendingWrites = this.pendingWrites
+      .then(() => this.writeSeed(store))
+      .then(() => operation(store))
+      .catch((error) => {
+        this.writeError = this.writeError || error;
+      });
+  }
+
+  // Stores the initial context unless the store already holds a history for this conversation
+  private async writeSeed(store: ContextStore): Promise<void> {
+    const seed = this.seedContext;
+    if (!seed) {
+      return;
+    }
+    this.seedContext = undefined;
+    if ((await store.load(this.id)).length === 0) {
+      await store.save(this.id, seed);
+    }
+  }
+
+  private buildOptions<T extends ConversationDefaults>(
+    options: T,
+    messages: ChatMessage[]
+  ): T & CreateChatCompletionOptions {
+    const model = options.model || this.defaults.model;
+    if (!model) {
+      throw new Error('A model must be set in the conversation defaults or the request options');
+    }
+    return { ...this.defaults, ...options, model, messages };
+  }
+}
+
+/**
+ * Turns an assistant reply into the entry recorded in the history. Tool calls, a refusal
+ * and the id of an audio reply are kept; the audio data itself is not sent back.
+ * @param {ChatMessage} reply - The message of a chat completion choice.
+ * @returns {ContextEntry}
+ */
+export function replyToContextEntry(reply: ChatMessage): ContextEntry {
+  const { tool_calls: toolCalls, function_call: functionCall, refusal, audio } = reply;
+  return {
+    role: reply.role,
+    content: reply.content ?? null,
+    ...(reply.name ? { name: reply.name } : {}),
+    ...(toolCalls && toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    ...(functionCall ? { function_call: functionCall } : {}),
+    ...(refusal ? { refusal } : {}),
+    ...(audio ? { audio: { id: audio.id } } : {}),
+  };
+}
+
+function assertValidContextEntries(contextEntries: ContextEntry[]): void {
+  if (!Array.isArray(contextEntries)) {
+    throw new Error('Input must be an array of context entries');
+  }
+  if (!contextEntries.every(isValidContextEntry)) {
+    throw new Error(
+      'Context entry must be an object with role ("system", "user", "assistant", "tool", or "function") and content properties'
+    );
+  }
+}
+
+function isValidContextEntry(contextEntry: ContextEntry): boolean {
+  if (
+    !contextEntry ||
+    typeof contextEntry !== 'object' ||
+    !CONTEXT_ROLES.includes(contextEntry.role)
+  ) {
+    return false;
+  }
+
+  if (contextEntry.role === 'tool' && typeof contextEntry.tool_call_id !== 'string') {
+    return false;
+  }
+
+  // Assistant messages that only carry tool calls, a refusal or an audio reply have null content
+  if (contextEntry.content === null) {
+    return (
+      contextEntry.role === 'assistant' &&
+      (Array.isArray(contextEntry.tool_calls) ||
+        !!contextEntry.function_call ||
+        typeof contextEntry.refusal === 'string' ||
+        !!contextEntry.audio)
+    );
+  }
+
+  if (Array.isArray(contextEntry.content)) {
+    return contextEntry.content.length > 0 && contextEntry.content.every(isValidContentPart);
+  }
+
+  return typeof contextEntry.content === 'string';
+}
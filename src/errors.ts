@@ -1,42 +1,163 @@
 // src/errors.ts
 
+import { Batch, FineTuningJob, OpenAIErrorDetails } from './types';
+
 export class OpenAIError extends Error {
   statusCode?: number;
   data?: any;
+  requestId?: string;
+  code?: string | null;
+  type?: string;
+  param?: string | null;
+  headers?: Record<string, string>;
 
-  constructor(message: string, statusCode?: number, data?: any) {
+  constructor(message: string, statusCode?: number, data?: any, details: OpenAIErrorDetails = {}) {
     super(message);
     this.name = 'OpenAIError';
     this.statusCode = statusCode;
     this.data = data;
+    this.requestId = details.requestId;
+    this.code = details.code;
+    this.type = details.type;
+    this.param = details.param;
+    this.headers = details.headers;
     Object.setPrototypeOf(this, new.target.prototype);
   }
 }
 
 export class AuthenticationError extends OpenAIError {
-  constructor(message: string, statusCode?: number, data?: any) {
-    super(message, statusCode, data);
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
     this.name = 'AuthenticationError';
   }
 }
 
 export class ValidationError extends OpenAIError {
-  constructor(message: string, statusCode?: number, data?: any) {
-    super(message, statusCode, data);
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
     this.name = 'ValidationError';
   }
 }
 
 export class RateLimitError extends OpenAIError {
-  constructor(message: string, statusCode?: number, data?: any) {
-    super(message, statusCode, data);
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
     this.name = 'RateLimitError';
   }
 }
 
 export class APIError extends OpenAIError {
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
+    this.name = 'APIError';
+  }
+}
+
+export class PermissionDeniedError extends APIError {
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export class NotFoundError extends APIError {
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends APIError {
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
+    this.name = 'ConflictError';
+  }
+}
+
+export class UnprocessableEntityError extends APIError {
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
+    this.name = 'UnprocessableEntityError';
+  }
+}
+
+export class InternalServerError extends APIError {
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
+    this.name = 'InternalServerError';
+  }
+}
+
+// The request never received a response
+export class ConnectionError extends OpenAIError {
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
+    this.name = 'ConnectionError';
+  }
+}
+
+export class TimeoutError extends ConnectionError {
+  constructor(message: string, statusCode?: number, data?: any, details?: OpenAIErrorDetails) {
+    super(message, statusCode, data, details);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ToolCallError extends OpenAIError {
   constructor(message: string, statusCode?: number, data?: any) {
     super(message, statusCode, data);
-    this.name = 'APIError';
+    this.name = 'ToolCallError';
+  }
+}
+
+export class StructuredOutputError extends OpenAIError {
+  path?: string;
+
+  constructor(message: string, path?: string, data?: any) {
+    super(message, undefined, data);
+    this.name = 'StructuredOutputError';
+    this.path = path;
+  }
+}
+
+export class RequestCancelledError extends OpenAIError {
+  constructor(message: string, statusCode?: number, data?: any) {
+    super(message, statusCode, data);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// A batch failed validation, or did not finish in time
+export class BatchError extends OpenAIError {
+  batch: Batch;
+
+  constructor(message: string, batch: Batch) {
+    super(message, undefined, batch);
+    this.name = 'BatchError';
+    this.batch = batch;
+  }
+}
+
+// A fine-tuning job failed or was cancelled, or did not finish in time
+export class FineTuningError extends OpenAIError {
+  job: FineTuningJob;
+
+  constructor(message: string, job: FineTuningJob) {
+    super(message, undefined, job);
+    this.name = 'FineTuningError';
+    this.job = job;
+  }
+}
+
+// A multipart upload failed; the parts sent so far can be reused to resume it
+export class UploadError extends OpenAIError {
+  uploadId: string;
+  partIds: Array<string | undefined>;
+
+  constructor(message: string, uploadId: string, partIds: Array<string | undefined>) {
+    super(message, undefined, { uploadId, partIds });
+    this.name = 'UploadError';
+    this.uploadId = uploadId;
+    this.partIds = partIds;
   }
 }
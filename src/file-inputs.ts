@@ -0,0 +1,125 @@
+// src/file-inputs.ts
+
+import FormData from 'form-data';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { guessExtension, guessMimeType } from './uploads';
+import { BlobLike, FileData, NamedFile, ToFileOptions, Uploadable } from './types';
+
+const isBlobLike = (value: unknown): value is BlobLike =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as BlobLike).arrayBuffer === 'function' &&
+  typeof (value as BlobLike).size === 'number';
+
+const isNamedFile = (value: unknown): value is NamedFile =>
+  typeof value === 'object' && value !== null && 'filename' in value && 'data' in value;
+
+// The name a File or a file stream already carries
+const sourceName = (data: FileData): string | undefined => {
+  if (isBlobLike(data)) {
+    return data.name || undefined;
+  }
+  const streamPath = (data as Partial<fs.ReadStream>).path;
+  return typeof streamPath === 'string' ? path.basename(streamPath) : undefined;
+};
+
+// Gives a fallback name the extension of the content type, as the API reads the format from it
+const withExtension = (filename: string, contentType?: string): string =>
+  contentType && !path.extname(filename)
+    ? filename + (guessExtension(contentType) || '')
+    : filename;
+
+const toBuffer = (data: Buffer | Uint8Array | ArrayBuffer): Buffer => {
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+  return data instanceof ArrayBuffer
+    ? Buffer.from(data)
+    : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+};
+
+// Names a file after its source, or after the fallback with the extension of its content type
+const nameFile = async (
+  data: FileData,
+  filename: string | undefined,
+  fallbackName: string,
+  options: ToFileOptions
+): Promise<NamedFile> => {
+  const blob = isBlobLike(data) ? data : undefined;
+  const type = options.contentType || blob?.type || undefined;
+  const name = filename || withExtension(fallbackName, type);
+  const contentType = type || guessMimeType(name);
+
+  if (data instanceof Readable) {
+    return { data, filename: name, contentType };
+  }
+  const buffer = blob
+    ? Buffer.from(await blob.arrayBuffer())
+    : toBuffer(data as Buffer | Uint8Array | ArrayBuffer);
+  return { data: buffer, filename: name, contentType, size: buffer.length };
+};
+
+/**
+ * Names in-memory or streamed data so it can be sent as a file, with the filename and
+ * MIME type the API uses to recognize its format.
+ * @param {FileData} data - A Buffer, typed array, ArrayBuffer, readable stream, Blob or File.
+ * @param {string} filename - The filename. Defaults to the name of a File or file stream, or
+ * to `file` with the extension of the MIME type.
+ * @param {ToFileOptions} options - The MIME type, guessed from the filename by default.
+ * @returns {Promise<NamedFile>}
+ * @example
+ * const file = await toFile(request.body, 'recording.webm', { contentType: 'audio/webm' });
+ * const transcription = await client.transcribeAudio(file);
+ */
+export async function toFile(
+  data: FileData,
+  filename?: string,
+  options: ToFileOptions = {}
+): Promise<NamedFile> {
+  return nameFile(data, filename || sourceName(data), 'file', options);
+}
+
+/**
+ * Turns any accepted file input into a named file. Paths are streamed from disk.
+ * @param {Uploadable} input - A path, in-memory data, a stream, a Blob or a named file.
+ * @param {string} fallbackName - The filename used when the input carries none; the extension
+ * of a known MIME type is added if it has none.
+ * @returns {Promise<NamedFile>}
+ */
+export async function resolveFile(input: Uploadable, fallbackName: string): Promise<NamedFile> {
+  if (typeof input === 'string') {
+    const { size } = await fs.promises.stat(input);
+    return {
+      data: fs.createReadStream(input),
+      filename: path.basename(input),
+      contentType: guessMimeType(input),
+      size,
+    };
+  }
+  if (isNamedFile(input)) {
+    return input;
+  }
+  return nameFile(input, sourceName(input), fallbackName, {});
+}
+
+/**
+ * Adds a named file to a multipart form.
+ * @param {FormData} formData - The form.
+ * @param {string} field - The form field, such as `file` or `image`.
+ * @param {NamedFile} file - The file.
+ * @param {Buffer | Readable} data - Replaces the content of the file, such as with a counting stream.
+ */
+export function appendFile(
+  formData: FormData,
+  field: string,
+  file: NamedFile,
+  data: Buffer | Readable = file.data
+): void {
+  formData.append(field, data, {
+    filename: file.filename,
+    contentType: file.contentType,
+    knownLength: file.size,
+  });
+}
@@ -0,0 +1,204 @@
+// src/json-schema.ts
+
+import { JSONSchema, JSONSchemaIssue } from './types';
+
+const describeType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+// Only own keys count, so names such as `toString` or `constructor` are not found on the prototype
+const hasOwn = (object: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length && aKeys.every((key) => isEqual((a as any)[key], (b as any)[key]))
+  );
+};
+
+const propertyPath = (path: string, key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+const resolveRef = (root: JSONSchema, ref: string): JSONSchema | undefined => {
+  if (!ref.startsWith('#')) return undefined;
+
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((node, segment) => (node === undefined ? undefined : node[segment]), root);
+};
+
+function validate(
+  value: unknown,
+  schema: JSONSchema | boolean | undefined,
+  path: string,
+  root: JSONSchema,
+  issues: JSONSchemaIssue[]
+): void {
+  if (schema === undefined || schema === true) return;
+  if (schema === false) {
+    issues.push({ path, message: 'Value is not allowed' });
+    return;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) {
+      issues.push({ path, message: `Unresolvable schema reference "${schema.$ref}"` });
+    } else {
+      validate(value, target, path, root, issues);
+    }
+    return;
+  }
+
+  const matches = (subschema: JSONSchema) =>
+    validateJsonSchema(value, subschema, root).length === 0;
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((subschema: JSONSchema) => validate(value, subschema, path, root, issues));
+  }
+
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(matches)) {
+    issues.push({ path, message: 'Value does not match any of the allowed schemas' });
+  }
+
+  if (Array.isArray(schema.oneOf) && schema.oneOf.filter(matches).length !== 1) {
+    issues.push({ path, message: 'Value must match exactly one of the allowed schemas' });
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option: unknown) => isEqual(option, value))
+  ) {
+    issues.push({ path, message: `Value must be one of ${JSON.stringify(schema.enum)}` });
+  }
+
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    issues.push({ path, message: `Value must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({
+        path,
+        message: `Expected ${types.join(' | ')}, received ${describeType(value)}`,
+      });
+      return;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `String must have at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `String must have at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `String must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `Number must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `Number must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `Number must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issues.push({ path, message: `Number must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `Array must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `Array must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) =>
+        validate(item, schema.items, `${path}[${index}]`, root, issues)
+      );
+    }
+  } else if (matchesType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, JSONSchema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!hasOwn(object, key)) {
+        issues.push({ path: propertyPath(path, key), message: 'Required property is missing' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (hasOwn(properties, key)) {
+        validate(propertyValue, properties[key], propertyPath(path, key), root, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: propertyPath(path, key), message: 'Unexpected property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validate(propertyValue, schema.additionalProperties, propertyPath(path, key), root, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validates a value against a JSON Schema. Supports the subset of keywords
+ * accepted by structured outputs: type, enum, const, properties, required,
+ * additionalProperties, items, anyOf/oneOf/allOf, local $ref, and the usual
+ * string, number and array bounds.
+ * @param {unknown} value - The value to validate.
+ * @param {JSONSchema} schema - The schema to validate against.
+ * @param {JSONSchema} root - The root schema used to resolve `$ref` (defaults to `schema`).
+ * @returns {JSONSchemaIssue[]} The validation issues; empty when the value conforms.
+ * @example
+ * const issues = validateJsonSchema({ age: 'ten' }, {
+ *   type: 'object',
+ *   properties: { age: { type: 'integer' } },
+ * });
+ * // [{ path: '$.age', message: 'Expected integer, received string' }]
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JSONSchema,
+  root: JSONSchema = schema
+): JSONSchemaIssue[] {
+  const issues: JSONSchemaIssue[] = [];
+  validate(value, schema, '$', root, issues);
+  return issues;
+}
@@ -0,0 +1,152 @@
+// src/log-redaction.ts
+
+import { RedactionOptions } from './types';
+
+const REDACTED = '[REDACTED]';
+
+// Header and field names whose values are credentials
+const SENSITIVE_KEYS = ['authorization', 'api_key', 'apikey', 'api-key', 'x-api-key'];
+
+// Bearer tokens and OpenAI secret keys appearing inside strings
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/Bearer\s+[\w.~+/-]+=*/g, `Bearer ${REDACTED}`],
+  [/\bsk-[\w-]{8,}/g, REDACTED],
+];
+
+const DEFAULT_OPTIONS: Required<Omit<RedactionOptions, 'rules'>> = {
+  maxStringLength: 200,
+  maxArrayLength: 16,
+  dropKeys: ['b64_json'],
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const withGlobalFlag = (pattern: RegExp): RegExp =>
+  pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+
+/**
+ * Masks credentials and custom patterns in log output, truncates long strings and
+ * vectors, and drops bulky fields such as base64 images.
+ * @example
+ * const redactor = new LogRedactor({ rules: [/\d{3}-\d{2}-\d{4}/, 'messages.*.content'] });
+ * logger.debug(JSON.stringify(redactor.redact(payload)));
+ */
+export class LogRedactor {
+  private options: Required<Omit<RedactionOptions, 'rules'>>;
+  private patterns: Array<[RegExp, string]>;
+  private paths: string[][];
+
+  /**
+   * @param {RedactionOptions} options - Truncation limits, dropped keys and custom rules.
+   * @param {string[]} secrets - Literal values that are always masked, such as the API key.
+   */
+  constructor(options: RedactionOptions = {}, secrets: string[] = []) {
+    const { rules = [], ...limits } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...limits };
+    this.patterns = [
+      ...secrets
+        .filter((secret) => secret)
+        .map((secret): [RegExp, string] => [new RegExp(escapeRegExp(secret), 'g'), REDACTED]),
+      ...SECRET_PATTERNS,
+      ...rules
+        .filter((rule): rule is RegExp => rule instanceof RegExp)
+        .map((rule): [RegExp, string] => [withGlobalFlag(rule), REDACTED]),
+    ];
+    this.paths = rules
+      .filter((rule): rule is string => typeof rule === 'string')
+      .map((rule) => rule.split('.'));
+  }
+
+  /**
+   * Masks secrets and custom patterns in a log message.
+   * @param {string} text - The message.
+   * @returns {string}
+   */
+  redactText(text: string): string {
+    return this.patterns.reduce(
+      (result, [pattern, replacement]) => result.replace(pattern, replacement),
+      text
+    );
+  }
+
+  /**
+   * Returns a redacted copy of a value that is about to be logged.
+   * @param {unknown} value - A payload or response.
+   * @returns {unknown}
+   */
+  redact(value: unknown): unknown {
+    return this.redactValue(value, [], new WeakSet());
+  }
+
+  private redactValue(value: unknown, path: string[], ancestors: WeakSet<object>): unknown {
+    if (this.matchesPath(path)) {
+      return REDACTED;
+    }
+    if (typeof value === 'string') {
+      return this.truncate(this.redactText(value));
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (Buffer.isBuffer(value) || ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+      return `[${(value as ArrayBuffer).byteLength} bytes]`;
+    }
+
+    // Form data, streams and other class instances are not serialized
+    const prototype = Object.getPrototypeOf(value);
+    if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+      return `[${value.constructor?.name || 'Object'}]`;
+    }
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+
+    ancestors.add(value);
+    try {
+      return this.redactContainer(value, path, ancestors);
+    } finally {
+      ancestors.delete(value);
+    }
+  }
+
+  private redactContainer(value: object, path: string[], ancestors: WeakSet<object>): unknown {
+    if (Array.isArray(value)) {
+      if (
+        value.length > this.options.maxArrayLength &&
+        value.every((item) => typeof item === 'number')
+      ) {
+        return `[${value.length} numbers]`;
+      }
+      return value.map((item, index) =>
+        this.redactValue(item, [...path, String(index)], ancestors)
+      );
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (SENSITIVE_KEYS.includes(key.toLowerCase())) {
+        result[key] = REDACTED;
+      } else if (this.options.dropKeys.includes(key)) {
+        result[key] = '[omitted]';
+      } else {
+        result[key] = this.redactValue(item, [...path, key], ancestors);
+      }
+    }
+    return result;
+  }
+
+  private matchesPath(path: string[]): boolean {
+    return this.paths.some(
+      (rule) =>
+        rule.length === path.length &&
+        rule.every((segment, index) => segment === '*' || segment === path[index])
+    );
+  }
+
+  private truncate(text: string): string {
+    const { maxStringLength } = this.options;
+    return text.length > maxStringLength
+      ? `${text.slice(0, maxStringLength)}… [${text.length} chars]`
+      : text;
+  }
+}
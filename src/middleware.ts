@@ -0,0 +1,146 @@
+// src/middleware.ts
+
+import { OpenAIError } from './errors';
+import { Middleware, MiddlewareContext } from './types';
+
+/**
+ * Builds the context middleware receives for a request. Plain-object payloads are
+ * copied, so middleware can set top-level fields without touching the caller's object.
+ * @param {string} method - The HTTP method.
+ * @param {string} endpoint - The endpoint, such as `/chat/completions`.
+ * @param {any} data - The request payload.
+ * @param {Record<string, string>} headers - The per-request headers.
+ * @param {boolean} stream - Whether the response is streamed.
+ * @returns {MiddlewareContext}
+ */
+export function createMiddlewareContext(
+  method: string,
+  endpoint: string,
+  data: any,
+  headers: Record<string, string> = {},
+  stream = false
+): MiddlewareContext {
+  const isPlainObject = data !== null && Object.getPrototypeOf(data) === Object.prototype;
+  return {
+    method,
+    endpoint,
+    stream,
+    data: isPlainObject ? { ...data } : data,
+    headers: { ...headers },
+  };
+}
+
+/**
+ * Turns the value a middleware answered a streaming request with into a chunk source.
+ * @param {unknown} value - An async iterable or an array of chunks.
+ * @returns {AsyncIterable<T>}
+ * @throws {OpenAIError} If the value is neither.
+ */
+export function toChunkSource<T>(value: unknown): AsyncIterable<T> {
+  if (Array.isArray(value)) {
+    return (async function* () {
+      for (const chunk of value) {
+        yield chunk as T;
+      }
+    })();
+  }
+  if (value && typeof (value as AsyncIterable<T>)[Symbol.asyncIterator] === 'function') {
+    return value as AsyncIterable<T>;
+  }
+  throw new OpenAIError(
+    'Middleware must answer a streaming request with an async iterable or an array of chunks'
+  );
+}
+
+/**
+ * Runs the hooks of the middleware registered on a client, in registration order.
+ */
+export class MiddlewarePipeline {
+  private middleware: Middleware[] = [];
+
+  constructor(middleware: Middleware[] = []) {
+    middleware.forEach((entry) => this.use(entry));
+  }
+
+  /**
+   * Adds a middleware after the existing ones.
+   * @param {Middleware} middleware - The middleware.
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Runs `beforeRequest` hooks until one answers the request itself.
+   * @param {MiddlewareContext} context - The request context.
+   * @returns {Promise<unknown>} The answer, or undefined to send the request.
+   */
+  async beforeRequest(context: MiddlewareContext): Promise<unknown> {
+    for (const middleware of this.middleware) {
+      const result = await middleware.beforeRequest?.(context);
+      if (result !== undefined) {
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Passes the result through every `afterResponse` hook.
+   * @param {MiddlewareContext} context - The request context.
+   * @param {T} result - The parsed response.
+   * @returns {Promise<T>} The result, possibly replaced by a hook.
+   */
+  async afterResponse<T>(context: MiddlewareContext, result: T): Promise<T> {
+    let current = result;
+    for (const middleware of this.middleware) {
+      const replaced = await middleware.afterResponse?.(context, current);
+      if (replaced !== undefined) {
+        current = replaced as T;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Runs `onError` hooks until one recovers from the error.
+   * @param {MiddlewareContext} context - The request context.
+   * @param {OpenAIError} error - The error.
+   * @returns {Promise<unknown>} The recovery result, or undefined to let the error propagate.
+   */
+  async onError(context: MiddlewareContext, error: OpenAIError): Promise<unknown> {
+    for (const middleware of this.middleware) {
+      const result = await middleware.onError?.(context, error);
+      if (result !== undefined) {
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Passes every chunk of a stream through the `onStreamChunk` hooks.
+   * @param {MiddlewareContext} context - The request context.
+   * @param {AsyncIterable<T>} chunks - The chunks.
+   * @returns {AsyncIterable<T>}
+   */
+  wrapStream<T>(context: MiddlewareContext, chunks: AsyncIterable<T>): AsyncIterable<T> {
+    const hooks = this.middleware.filter((middleware) => middleware.onStreamChunk);
+    if (hooks.length === 0) {
+      return chunks;
+    }
+
+    return (async function* () {
+      for await (const chunk of chunks) {
+        let current = chunk as T;
+        for (const middleware of hooks) {
+          const replaced = await middleware.onStreamChunk!(context, current);
+          if (replaced !== undefined) {
+            current = replaced as T;
+          }
+        }
+        yield current;
+      }
+    })();
+  }
+}
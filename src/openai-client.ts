@@ -1,9 +1,12 @@
 // src/openai-client.ts
 
-import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
-import axiosRetry, { exponentialDelay, isRetryableError } from 'axios-retry';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axiosRetry from 'axios-retry';
 import FormData from 'form-data';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
 import fs from 'fs';
+import path from 'path';
 import { Readable } from 'stream';
 import winston, { format, transports } from 'winston';
 import {
@@ -12,12 +15,55 @@ import {
   ValidationError,
   RateLimitError,
   APIError,
+  ToolCallError,
+  StructuredOutputError,
+  RequestCancelledError,
+  PermissionDeniedError,
+  NotFoundError,
+  ConflictError,
+  UnprocessableEntityError,
+  InternalServerError,
+  ConnectionError,
+  TimeoutError,
+  BatchError,
+  FineTuningError,
+  UploadError,
 } from './errors';
+import { validateJsonSchema } from './json-schema';
+import { Conversation, ConversationBackend, replyToContextEntry } from './conversation';
+import { trimMessages } from './context-trimming';
+import {
+  DEFAULT_SUMMARY_PROMPT,
+  SUMMARY_ENTRY_NAME,
+  formatTranscript,
+  splitForSummary,
+} from './context-summarization';
+import { countMessageTokens } from './token-counter';
+import { contentToText } from './content-parts';
+import { ChatCompletionStream, CompletionStream } from './streams';
+import { iterateJsonEvents } from './sse';
+import { computeRetryDelay, createRetryPolicy, isRetryableError } from './retry-policy';
+import { LogRedactor } from './log-redaction';
+import { readUsage, UsageTracker } from './usage-tracker';
+import {
+  buildBatchInput,
+  collectBatchResults,
+  parseJsonLines,
+  TERMINAL_BATCH_STATUSES,
+} from './batches';
+import { wait } from './polling';
+import { Page } from './pagination';
+import { countBytes, guessMimeType, md5File, PartRange, planParts } from './uploads';
+import { appendFile, resolveFile } from './file-inputs';
+import { createMiddlewareContext, MiddlewarePipeline, toChunkSource } from './middleware';
+import { estimateRequestTokens, parseRateLimitHeaders, RateLimiter } from './rate-limiter';
 import {
   OpenAIClientOptions,
   LoggingOptions,
   LogLevel,
-  ListModelsResponse,
+  Logger,
+  LogRecord,
+  Model,
   RetrieveModelResponse,
   CreateCompletionOptions,
   CompletionResponse,
@@ -37,54 +83,196 @@ import {
   ImageResponse,
   AudioOptions,
   UploadFileOptions,
-  ListFilesResponse,
+  Uploadable,
+  ListFilesOptions,
   FileObject,
   FileContent,
   CreateFineTuneOptions,
   FineTuneResponse,
-  ListFineTuneEventsResponse,
+  FineTuneEvent,
   ContextEntry,
   ErrorResponse,
+  ChatCompletionTool,
+  ChatCompletionMessageToolCall,
+  RegisteredTool,
+  RateLimitState,
+  OpenAIErrorDetails,
+  APIResponseInfo,
+  Middleware,
+  WithResponse,
+  RunToolsOptions,
+  ChatMessage,
+  CreateStructuredChatCompletionOptions,
+  StructuredChatCompletionResponse,
+  ResponseFormat,
+  JSONSchema,
+  JSONSchemaIssue,
+  ConversationOptions,
+  ContextTrimmingOptions,
+  ContextSummarizationOptions,
+  ContextStore,
+  RequestOptions,
+  UsageReport,
+  Batch,
+  BatchEndpoint,
+  BatchEndpointTypes,
+  BatchOutputLine,
+  BatchRequest,
+  CreateBatchOptions,
+  ListBatchesOptions,
+  RunBatchOptions,
+  RunBatchResponse,
+  CursorPage,
+  CursorPageOptions,
+  FineTuningJob,
+  FineTuningJobEvent,
+  FineTuningJobCheckpoint,
+  CreateFineTuningJobOptions,
+  ListFineTuningJobsOptions,
+  WaitForFineTuningJobOptions,
+  RetryOptions,
+  Upload,
+  UploadPart,
+  CreateUploadOptions,
+  CompleteUploadOptions,
+  UploadLargeFileOptions,
 } from './types';
 
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Options for the requests of a multi-request call that must not reuse the caller's
+// idempotency key, whether it was given as an option or as a header
+const withoutIdempotencyKey = (requestOptions: RequestOptions): RequestOptions => {
+  const { headers } = requestOptions;
+  const otherHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (name.toLowerCase() !== IDEMPOTENCY_HEADER.toLowerCase()) {
+      otherHeaders[name] = value;
+    }
+  }
+  return {
+    ...requestOptions,
+    idempotencyKey: undefined,
+    ...(headers ? { headers: otherHeaders } : {}),
+  };
+};
+
+const DEFAULT_POLL_INTERVAL = 30000;
+
+const DEFAULT_UPLOAD_CONCURRENCY = 4;
+
+const DEFAULT_PART_RETRIES = 3;
+
+const readErrorBody = async (stream: Readable): Promise<unknown> => {
+  let body = '';
+  try {
+    for await (const chunk of stream) {
+      body += chunk.toString();
+    }
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+// Levels beyond the minimal logger interface are logged at debug
+const LOGGER_METHODS: Record<LogLevel, keyof Logger> = {
+  error: 'error',
+  warn: 'warn',
+  info: 'info',
+  http: 'debug',
+  verbose: 'debug',
+  debug: 'debug',
+  silly: 'debug',
+};
+
+// Builds the Winston logger used when no logger is injected
+const createDefaultLogger = (loggingOptions: LoggingOptions): winston.Logger => {
+  const level = loggingOptions.logLevel || 'info';
+  const loggerTransports: winston.transport[] = [
+    new transports.Console({
+      level,
+      format: loggingOptions.logFormat || format.combine(format.colorize(), format.simple()),
+    }),
+  ];
+
+  if (loggingOptions.logToFile && loggingOptions.logFilePath) {
+    loggerTransports.push(
+      new transports.File({
+        filename: loggingOptions.logFilePath,
+        level,
+        format: loggingOptions.logFormat || format.combine(format.timestamp(), format.json()),
+      })
+    );
+  }
+
+  return winston.createLogger({
+    level,
+    transports: loggerTransports,
+    silent: loggingOptions.silent,
+  });
+};
+
+// Reads the token usage reported in a response body, if any
+const usageTokens = (data: any): LogRecord['tokens'] => {
+  const usage = readUsage(data?.usage);
+  return (
+    usage && {
+      prompt: usage.promptTokens,
+      completion: usage.completionTokens,
+      total: usage.totalTokens,
+    }
+  );
+};
+
+// Copies response headers into a plain object; repeated headers are joined
+const headerRecord = (headers: Record<string, any>): Record<string, string> => {
+  const record: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && value !== null) {
+      record[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return record;
+};
+
 export default class OpenAIClient {
   private apiKey: string;
   private baseURL: string;
   private client: AxiosInstance;
-  private logger: winston.Logger;
-  private logLevel: LogLevel;
-  private context: ContextEntry[] = [];
+  private logger: Logger;
+  private silent: boolean;
+  private defaultConversation: Conversation;
+  private contextTrimming?: ContextTrimmingOptions;
+  private contextSummarization?: ContextSummarizationOptions;
+  private contextStore?: ContextStore;
+  private tools: Map<string, RegisteredTool> = new Map();
+  private rateLimiter?: RateLimiter;
+  private rateLimits?: RateLimitState;
+  private middleware: MiddlewarePipeline;
+  private redactor?: LogRedactor;
+  private usageTracker?: UsageTracker;
+  private includeStreamUsage = false;
+  private retryOptions?: RetryOptions;
+  private responseCapture = new AsyncLocalStorage<{ response?: APIResponseInfo }>();
 
   constructor(apiKey: string, options: OpenAIClientOptions = {}) {
     this.apiKey = apiKey;
     this.baseURL = options.baseURL || 'https://api.openai.com/v1';
+    this.contextTrimming = options.contextTrimming;
+    this.contextSummarization = options.contextSummarization;
+    this.contextStore = options.contextStore;
+    this.defaultConversation = this.createConversation({ id: 'default' });
 
     // Initialize logging
     const loggingOptions: LoggingOptions = options.loggingOptions || {};
 
-    this.logLevel = loggingOptions.logLevel || 'info';
-
-    const loggerTransports: winston.transport[] = [
-      new transports.Console({
-        level: this.logLevel,
-        format: format.combine(format.colorize(), format.simple()),
-      }),
-    ];
-
-    if (loggingOptions.logToFile && loggingOptions.logFilePath) {
-      loggerTransports.push(
-        new transports.File({
-          filename: loggingOptions.logFilePath,
-          level: this.logLevel,
-          format: format.combine(format.timestamp(), format.json()),
-        })
-      );
-    }
+    this.silent = loggingOptions.silent === true;
+    this.logger = loggingOptions.logger || createDefaultLogger(loggingOptions);
 
-    this.logger = winston.createLogger({
-      level: this.logLevel,
-      transports: loggerTransports,
-    });
+    if (loggingOptions.redaction !== false) {
+      this.redactor = new LogRedactor(loggingOptions.redaction, [apiKey]);
+    }
 
     // Merge Axios configurations
     const axiosConfig: AxiosRequestConfig = {
@@ -106,67 +294,278 @@ export default class OpenAIClient {
 
     this.client = axios.create(axiosConfig);
 
+    if (options.rateLimit) {
+      this.rateLimiter = new RateLimiter(options.rateLimit);
+    }
+    this.middleware = new MiddlewarePipeline(options.middleware);
+    if (options.usageTracking) {
+      const usageTracking = options.usageTracking === true ? {} : options.usageTracking;
+      this.usageTracker = new UsageTracker(usageTracking);
+      this.includeStreamUsage = !!usageTracking.includeStreamUsage;
+    }
+
+    // Registered before axios-retry so the headers of every attempt are recorded
+    this.client.interceptors.response.use(
+      (response) => {
+        this.trackRateLimits(response.headers);
+        return response;
+      },
+      (error) => {
+        this.trackRateLimits(error.response?.headers);
+        return Promise.reject(error);
+      }
+    );
+
     // Configure axios-retry
+    this.retryOptions = options.retry;
     axiosRetry(this.client, {
-      retries: 3,
-      retryDelay: exponentialDelay,
-      retryCondition: isRetryableError,
+      ...createRetryPolicy(options.retry, (level, message, record) =>
+        this.log(level, message, record)
+      ),
       ...options.axiosRetryConfig,
     });
   }
 
-  private log(level: LogLevel, message: string): void {
-    this.logger.log(level, message);
+  private log(level: LogLevel, message: string, record?: LogRecord): void {
+    if (this.silent) {
+      return;
+    }
+
+    const method = LOGGER_METHODS[level];
+    const text = this.redactor ? this.redactor.redactText(message) : message;
+    if (record) {
+      this.logger[method](
+        text,
+        this.redactor ? (this.redactor.redact(record) as LogRecord) : record
+      );
+    } else {
+      this.logger[method](text);
+    }
+  }
+
+  private logResponse(
+    method: string,
+    endpoint: string,
+    info: APIResponseInfo,
+    data?: unknown,
+    stream = false
+  ): void {
+    this.log('info', `Response: ${method} ${endpoint} ${info.status} in ${info.durationMs}ms`, {
+      method,
+      endpoint,
+      stream,
+      status: info.status,
+      durationMs: info.durationMs,
+      requestId: info.requestId,
+      tokens: usageTokens(data),
+    });
+  }
+
+  // Cancellations are expected, so they are only logged at debug
+  private logFailure(method: string, endpoint: string, error: OpenAIError, stream = false): void {
+    this.log(
+      error instanceof RequestCancelledError ? 'debug' : 'warn',
+      `Request failed: ${method} ${endpoint}: ${error.message}`,
+      {
+        method,
+        endpoint,
+        stream,
+        status: error.statusCode,
+        requestId: error.requestId,
+        error: error.name,
+      }
+    );
+  }
+
+  // Serializes a payload or response for debug logs, after redaction
+  private formatForLog(value: unknown): string {
+    return JSON.stringify(this.redactor ? this.redactor.redact(value) : value);
   }
 
-  private handleError(error: AxiosError): never {
+  private toOpenAIError(error: AxiosError): OpenAIError {
+    // Errors raised by the client itself, such as a cancelled queued request
+    if (error instanceof OpenAIError) {
+      return error;
+    }
+
+    if (error.code === AxiosError.ERR_CANCELED) {
+      return new RequestCancelledError('Request was cancelled');
+    }
+
+    const headers = error.response ? headerRecord(error.response.headers) : undefined;
+    const details: OpenAIErrorDetails = { requestId: headers?.['x-request-id'], headers };
+
     if (error.response) {
       const { status, data } = error.response;
-      const message = (data as ErrorResponse)?.error?.message || error.message;
+      const errorObject = (data as ErrorResponse)?.error;
+      const message = errorObject?.message || error.message;
+      Object.assign(details, {
+        code: errorObject?.code,
+        type: errorObject?.type,
+        param: errorObject?.param,
+      });
 
       switch (status) {
         case 400:
-          throw new ValidationError(message, status, data);
+          return new ValidationError(message, status, data, details);
         case 401:
-          throw new AuthenticationError(message, status, data);
+          return new AuthenticationError(message, status, data, details);
+        case 403:
+          return new PermissionDeniedError(message, status, data, details);
+        case 404:
+          return new NotFoundError(message, status, data, details);
+        case 409:
+          return new ConflictError(message, status, data, details);
+        case 422:
+          return new UnprocessableEntityError(message, status, data, details);
         case 429:
-          throw new RateLimitError(message, status, data);
+          return new RateLimitError(message, status, data, details);
         default:
-          throw new APIError(message, status, data);
+          if (status >= 500) {
+            return new InternalServerError(message, status, data, details);
+          }
+          return new APIError(message, status, data, details);
       }
+    } else if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+      return new TimeoutError(`Request timed out: ${error.message}`, undefined, undefined, details);
     } else if (error.request) {
-      throw new OpenAIError(`Network error: ${error.message}`);
+      return new ConnectionError(`Network error: ${error.message}`, undefined, undefined, details);
     } else {
-      throw new OpenAIError(`Error: ${error.message}`);
+      return new OpenAIError(`Error: ${error.message}`);
     }
   }
 
+  // Waits for the local rate limiter, if one is configured
+  private async throttle(data: any, signal?: AbortSignal): Promise<void> {
+    if (!this.rateLimiter) {
+      return;
+    }
+    const tokens = estimateRequestTokens(data);
+    this.log('debug', `Waiting for rate limit capacity (${tokens} estimated tokens)`);
+    await this.rateLimiter.acquire(tokens, signal);
+  }
+
+  // Describes a response and hands it to an enclosing `withResponse` call, if any
+  private recordResponse(response: AxiosResponse, startedAt: number): APIResponseInfo {
+    const headers = headerRecord(response.headers);
+    const info: APIResponseInfo = {
+      status: response.status,
+      headers,
+      durationMs: Date.now() - startedAt,
+      requestId: headers['x-request-id'],
+    };
+    const capture = this.responseCapture.getStore();
+    if (capture) {
+      capture.response = info;
+    }
+    return info;
+  }
+
+  private trackRateLimits(headers?: Record<string, any>): void {
+    const state = parseRateLimitHeaders(headers);
+    if (state) {
+      this.rateLimits = state;
+      this.rateLimiter?.sync(state);
+    }
+  }
+
+  // Merges per-request options into the Axios configuration of a single call
+  private requestConfig(
+    method: string,
+    requestOptions: RequestOptions,
+    config: AxiosRequestConfig = {}
+  ): AxiosRequestConfig {
+    const { signal, headers, timeout, maxRetries, idempotencyKey } = requestOptions;
+    const mergedHeaders: Record<string, any> = {
+      ...(config.headers as Record<string, any>),
+      ...headers,
+    };
+
+    // The key is generated once per call, so axios-retry resends the same one on every attempt
+    if (method.toUpperCase() === 'POST') {
+      const hasKey = Object.keys(mergedHeaders).some(
+        (name) => name.toLowerCase() === IDEMPOTENCY_HEADER.toLowerCase()
+      );
+      if (idempotencyKey || !hasKey) {
+        mergedHeaders[IDEMPOTENCY_HEADER] = idempotencyKey || `openai-enhanced-sdk-${randomUUID()}`;
+      }
+    }
+
+    return {
+      ...config,
+      headers: mergedHeaders,
+      ...(signal ? { signal } : {}),
+      ...(timeout !== undefined ? { timeout } : {}),
+      ...(maxRetries !== undefined ? { 'axios-retry': { retries: maxRetries } } : {}),
+    };
+  }
+
   private async request<T>(
     method: string,
     endpoint: string,
     data: any = null,
-    config: AxiosRequestConfig = {}
+    config: AxiosRequestConfig = {},
+    requestOptions: RequestOptions = {}
   ): Promise<T> {
+    const context = createMiddlewareContext(method, endpoint, data, requestOptions.headers);
+
     try {
-      this.log('info', `Request: ${method} ${endpoint}`);
-      if (data) {
-        this.log('debug', `Payload: ${JSON.stringify(data)}`);
+      const answer = await this.middleware.beforeRequest(context);
+      if (answer !== undefined) {
+        this.log('debug', `Request: ${method} ${endpoint} answered by middleware`);
+        return answer as T;
+      }
+
+      await this.throttle(context.data, requestOptions.signal);
+
+      this.log('info', `Request: ${method} ${endpoint}`, { method, endpoint });
+      if (context.data) {
+        this.log('debug', `Payload: ${this.formatForLog(context.data)}`);
       }
 
+      const startedAt = Date.now();
       const response = await this.client.request<T>({
         method,
         url: endpoint,
-        data,
-        ...config,
+        data: context.data,
+        ...this.requestConfig(method, { ...requestOptions, headers: context.headers }, config),
+      });
+      this.logResponse(method, endpoint, this.recordResponse(response, startedAt), response.data);
+      this.usageTracker?.record((response.data as any)?.usage, {
+        model: (response.data as any)?.model ?? context.data?.model,
+        endpoint,
+        tag: requestOptions.usageTag,
       });
 
-      this.log('debug', `Response: ${JSON.stringify(response.data)}`);
-      return response.data;
+      this.log('debug', `Response: ${this.formatForLog(response.data)}`);
+      return await this.middleware.afterResponse(context, response.data);
     } catch (error) {
-      this.handleError(error as AxiosError);
+      const openAIError = this.toOpenAIError(error as AxiosError);
+      this.logFailure(method, endpoint, openAIError);
+      const recovered = await this.middleware.onError(context, openAIError);
+      if (recovered !== undefined) {
+        return recovered as T;
+      }
+      throw openAIError;
     }
   }
 
+  // Requests one page of a list endpoint; the page fetches the following ones itself
+  private async requestPage<T>(
+    endpoint: string,
+    params: CursorPageOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Page<T>> {
+    const body = await this.request<CursorPage<T>>(
+      'GET',
+      endpoint,
+      null,
+      { params },
+      requestOptions
+    );
+    return new Page<T>(body, params, (next) => this.requestPage<T>(endpoint, next, requestOptions));
+  }
+
   // === Context Management ===
 
   /**
@@ -180,17 +579,7 @@ export default class OpenAIClient {
    * });
    */
   addToContext(contextEntry: ContextEntry): void {
-    if (
-      typeof contextEntry === 'object' &&
-      ['system', 'user', 'assistant'].includes(contextEntry.role) &&
-      typeof contextEntry.content === 'string'
-    ) {
-      this.context.push(contextEntry);
-    } else {
-      throw new Error(
-        'Context entry must be an object with role ("system", "user", or "assistant") and content properties'
-      );
-    }
+    this.defaultConversation.addToContext(contextEntry);
   }
 
   /**
@@ -204,13 +593,7 @@ export default class OpenAIClient {
    * ]);
    */
   addBatchToContext(contextEntries: ContextEntry[]): void {
-    if (Array.isArray(contextEntries)) {
-      for (const contextEntry of contextEntries) {
-        this.addToContext(contextEntry);
-      }
-    } else {
-      throw new Error('Input must be an array of context entries');
-    }
+    this.defaultConversation.addBatchToContext(contextEntries);
   }
 
   /**
@@ -220,7 +603,7 @@ export default class OpenAIClient {
    * const context = client.getContext();
    */
   getContext(): ContextEntry[] {
-    return this.context;
+    return this.defaultConversation.getContext();
   }
 
   /**
@@ -229,38 +612,160 @@ export default class OpenAIClient {
    * client.clearContext();
    */
   clearContext(): void {
-    this.context = [];
+    this.defaultConversation.clearContext();
+  }
+
+  /**
+   * Creates an independent conversation with its own history, system prompt and defaults.
+   * The client-level context methods operate on a default conversation.
+   * @param {ConversationOptions} options - Options for the conversation.
+   * @returns {Conversation}
+   * @example
+   * const conversation = client.createConversation({
+   *   systemPrompt: 'You are a helpful assistant.',
+   *   defaults: { model: 'gpt-4o', temperature: 0.2 },
+   * });
+   * const response = await conversation.send('Tell me a joke.');
+   */
+  createConversation(options: ConversationOptions = {}): Conversation {
+    const backend: ConversationBackend = {
+      createChatCompletion: (conversation, chatOptions, requestOptions) =>
+        this.sendChatCompletion(conversation, chatOptions, requestOptions),
+      runTools: (conversation, toolOptions, requestOptions) =>
+        this.runToolLoop(conversation, toolOptions, requestOptions),
+    };
+    return new Conversation(backend, { contextStore: this.contextStore, ...options });
+  }
+
+  // === Middleware ===
+
+  /**
+   * Adds a middleware that runs around every request, after the ones already registered.
+   * @param {Middleware} middleware - Hooks run before the request, after the response,
+   *   on errors and for every stream chunk.
+   * @returns {this}
+   * @example
+   * client.use({
+   *   beforeRequest: (context) => {
+   *     context.headers['X-Team'] = 'search';
+   *   },
+   *   afterResponse: (context, result) => {
+   *     metrics.increment(`openai${context.endpoint}`);
+   *   },
+   * });
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  // === Raw Responses ===
+
+  /**
+   * Runs one or more client calls and returns their result together with the
+   * metadata of the last HTTP response they received. For streams, the response
+   * is recorded when its headers arrive.
+   * @param {() => Promise<T>} call - The client call(s) to run.
+   * @returns {Promise<WithResponse<T>>} The result and the response status, headers, duration and request id.
+   * @throws {OpenAIError} If the call did not send any request.
+   * @example
+   * const { data, response } = await client.withResponse(() =>
+   *   client.createEmbedding({ model: 'text-embedding-3-small', input: 'Hello' })
+   * );
+   * console.log(response.requestId, response.headers['openai-processing-ms']);
+   */
+  async withResponse<T>(call: () => Promise<T>): Promise<WithResponse<T>> {
+    const capture: { response?: APIResponseInfo } = {};
+    const data = await this.responseCapture.run(capture, call);
+    if (!capture.response) {
+      throw new OpenAIError('The call passed to withResponse did not send any request');
+    }
+    return { data, response: capture.response };
+  }
+
+  // === Rate Limits ===
+
+  /**
+   * Returns the rate-limit state reported by the headers of the latest response.
+   * @returns {RateLimitState | undefined} The state, or undefined before any response carried one.
+   * @example
+   * const limits = client.getRateLimits();
+   * console.log(limits?.tokens.remaining, limits?.tokens.resetAt);
+   */
+  getRateLimits(): RateLimitState | undefined {
+    if (!this.rateLimits) {
+      return undefined;
+    }
+    const { requests, tokens, updatedAt } = this.rateLimits;
+    return { requests: { ...requests }, tokens: { ...tokens }, updatedAt };
+  }
+
+  // === Usage ===
+
+  /**
+   * Returns the token usage and estimated cost aggregated since tracking started or was last reset.
+   * @returns {UsageReport | undefined} The report, or undefined if `usageTracking` is disabled.
+   * @example
+   * const usage = client.getUsage();
+   * console.log(usage?.total.totalTokens, usage?.byModel['gpt-4o']?.cost);
+   */
+  getUsage(): UsageReport | undefined {
+    return this.usageTracker?.snapshot();
+  }
+
+  /**
+   * Starts a new usage aggregation period, for example at the start of each job.
+   * @returns {UsageReport | undefined} The usage of the period that just ended.
+   * @example
+   * await runNightlyJob();
+   * const report = client.resetUsage();
+   */
+  resetUsage(): UsageReport | undefined {
+    return this.usageTracker?.reset();
   }
 
   // === Models ===
 
   /**
    * Retrieves a list of available models.
-   * @returns {Promise<ListModelsResponse>}
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Page<Model>>}
    * @example
    * const models = await client.listModels();
    */
-  async listModels(): Promise<ListModelsResponse> {
-    return this.request<ListModelsResponse>('GET', '/models');
+  async listModels(requestOptions: RequestOptions = {}): Promise<Page<Model>> {
+    return this.requestPage<Model>('/models', {}, requestOptions);
   }
 
   /**
    * Retrieves a specific model instance.
    * @param {string} modelId - The ID of the model to retrieve.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<RetrieveModelResponse>}
    * @example
    * const model = await client.retrieveModel('model-id');
    */
-  async retrieveModel(modelId: string): Promise<RetrieveModelResponse> {
-    return this.request<RetrieveModelResponse>('GET', `/models/${modelId}`);
+  async retrieveModel(
+    modelId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<RetrieveModelResponse> {
+    return this.request<RetrieveModelResponse>(
+      'GET',
+      `/models/${modelId}`,
+      null,
+      {},
+      requestOptions
+    );
   }
 
   // === Completions ===
 
   /**
    * Creates a completion based on the provided prompt and parameters.
+   * With `stream: true`, resolves with a `CompletionStream`.
    * @param {CreateCompletionOptions} options - Options for creating a completion.
-   * @returns {Promise<CompletionResponse | AsyncIterable<CompletionStreamResponse>>}
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<CompletionResponse | CompletionStream>}
    * @example
    * const completion = await client.createCompletion({
    *   model: 'text-davinci-003',
@@ -268,18 +773,19 @@ export default class OpenAIClient {
    * });
    */
   async createCompletion(
-    options: CreateCompletionOptions
-  ): Promise<CompletionResponse | AsyncIterable<CompletionStreamResponse>> {
+    options: CreateCompletionOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<CompletionResponse | CompletionStream> {
     if (options.stream) {
       const payload = { ...options };
-      const response = await this.client.post('/completions', payload, {
-        responseType: 'stream',
-      });
-
-      const stream = response.data as Readable;
-      return this.streamAsyncIterable<CompletionStreamResponse>(stream);
+      const { chunks, controller } = await this.requestStream<CompletionStreamResponse>(
+        '/completions',
+        payload,
+        requestOptions
+      );
+      return new CompletionStream(chunks, controller);
     } else {
-      return this.request<CompletionResponse>('POST', '/completions', options);
+      return this.request<CompletionResponse>('POST', '/completions', options, {}, requestOptions);
     }
   }
 
@@ -287,8 +793,10 @@ export default class OpenAIClient {
 
   /**
    * Creates a completion for the chat message with context.
+   * With `stream: true`, resolves with a `ChatCompletionStream`.
    * @param {CreateChatCompletionOptions} options - Options for creating a chat completion.
-   * @returns {Promise<ChatCompletionResponse | AsyncIterable<ChatCompletionStreamResponse>>}
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<ChatCompletionResponse | ChatCompletionStream>}
    * @example
    * const response = await client.createChatCompletion({
    *   model: 'gpt-3.5-turbo',
@@ -296,53 +804,515 @@ export default class OpenAIClient {
    * });
    */
   async createChatCompletion(
-    options: CreateChatCompletionOptions
-  ): Promise<ChatCompletionResponse | AsyncIterable<ChatCompletionStreamResponse>> {
+    options: CreateChatCompletionOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<ChatCompletionResponse | ChatCompletionStream> {
+    return this.sendChatCompletion(this.defaultConversation, options, requestOptions);
+  }
+
+  private async sendChatCompletion(
+    conversation: Conversation,
+    options: CreateChatCompletionOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<ChatCompletionResponse | ChatCompletionStream> {
+    await conversation.sync();
+
+    const contextSummarization =
+      conversation.getContextSummarization() || this.contextSummarization;
+    if (contextSummarization) {
+      await this.summarizeContext(
+        conversation,
+        contextSummarization,
+        options.model,
+        requestOptions
+      );
+    }
+
     // Include context in the messages
-    const messages = [...this.context, ...options.messages];
+    let messages = [...conversation.getMessages(), ...options.messages];
+
+    const contextTrimming = conversation.getContextTrimming() || this.contextTrimming;
+    if (contextTrimming) {
+      const trimmed = trimMessages(messages, contextTrimming, options.model);
+      if (trimmed.length < messages.length) {
+        this.log(
+          'debug',
+          `Context trimmed: removed ${messages.length - trimmed.length} of ${messages.length} messages`
+        );
+      }
+      messages = trimmed;
+    }
+
     const payload = { ...options, messages };
 
     if (options.stream) {
-      const response = await this.client.post('/chat/completions', payload, {
-        responseType: 'stream',
+      const { chunks, controller } = await this.requestStream<ChatCompletionStreamResponse>(
+        '/chat/completions',
+        payload,
+        requestOptions
+      );
+      return new ChatCompletionStream(chunks, controller);
+    } else {
+      return this.request<ChatCompletionResponse>(
+        'POST',
+        '/chat/completions',
+        payload,
+        {},
+        requestOptions
+      );
+    }
+  }
+
+  // Replaces older turns of the conversation history with a single system summary entry
+  private async summarizeContext(
+    conversation: Conversation,
+    summarization: ContextSummarizationOptions,
+    requestModel: string,
+    requestOptions: RequestOptions
+  ): Promise<void> {
+    const model = summarization.model || requestModel;
+    const history = conversation.getContext();
+
+    if (countMessageTokens(conversation.getMessages(), model) <= summarization.thresholdTokens) {
+      return;
+    }
+
+    const { pinned, older, recent } = splitForSummary(history, summarization.keepRecentTurns ?? 2);
+    if (older.length === 0) {
+      return;
+    }
+
+    try {
+      // The caller's idempotency key belongs to the chat completion this summary precedes
+      const response = await this.request<ChatCompletionResponse>(
+        'POST',
+        '/chat/completions',
+        {
+          model,
+          messages: [
+            { role: 'system', content: summarization.prompt || DEFAULT_SUMMARY_PROMPT },
+            { role: 'user', content: formatTranscript(older) },
+          ],
+        },
+        {},
+        withoutIdempotencyKey(requestOptions)
+      );
+
+      const summary = response.choices[0]?.message?.content;
+      if (!summary) {
+        this.log('warn', 'Context summarization returned an empty summary');
+        return;
+      }
+
+      // The history may have changed while the summary was being written
+      const current = conversation.getContext();
+      const added = current.slice(history.length);
+      conversation.replaceContext([
+        ...pinned,
+        { role: 'system', name: SUMMARY_ENTRY_NAME, content: summary },
+        ...recent,
+        ...added,
+      ]);
+
+      this.log('info', `Context summarized: replaced ${older.length} messages with a summary`);
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        throw error;
+      }
+      // A failed summary should not fail the request; trimming may still apply
+      this.log('warn', `Context summarization failed: ${(error as Error).message}`);
+    }
+  }
+
+  // Starts a streaming request; aborting the returned controller (or the caller's signal)
+  // cancels the request or destroys the response stream
+  private async requestStream<T>(
+    endpoint: string,
+    data: any,
+    requestOptions: RequestOptions
+  ): Promise<{ chunks: AsyncIterable<T>; controller: AbortController }> {
+    const controller = new AbortController();
+    const { signal } = requestOptions;
+    const abort = () => controller.abort();
+    const release = () => signal?.removeEventListener('abort', abort);
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+
+    // Usage of a stream is only reported when requested; ask for it if the client opted in
+    // and the caller did not set stream_options
+    const payload =
+      this.includeStreamUsage && data && data.stream_options === undefined
+        ? { ...data, stream_options: { include_usage: true } }
+        : data;
+    const context = createMiddlewareContext(
+      'POST',
+      endpoint,
+      payload,
+      requestOptions.headers,
+      true
+    );
+
+    try {
+      const answer = await this.middleware.beforeRequest(context);
+      if (answer !== undefined) {
+        release();
+        this.log('debug', `Request: POST ${endpoint} (stream) answered by middleware`);
+        return {
+          chunks: this.middleware.wrapStream(context, toChunkSource<T>(answer)),
+          controller,
+        };
+      }
+
+      await this.throttle(context.data, controller.signal);
+
+      this.log('info', `Request: POST ${endpoint} (stream)`, {
+        method: 'POST',
+        endpoint,
+        stream: true,
       });
+      const startedAt = Date.now();
+      const response = await this.client.post(
+        endpoint,
+        context.data,
+        this.requestConfig(
+          'POST',
+          { ...requestOptions, headers: context.headers, signal: controller.signal },
+          { responseType: 'stream' }
+        )
+      );
+      this.logResponse('POST', endpoint, this.recordResponse(response, startedAt), undefined, true);
 
       const stream = response.data as Readable;
-      return this.streamAsyncIterable<ChatCompletionStreamResponse>(stream);
+      const chunks = this.streamAsyncIterable<T>(stream, controller.signal, release);
+      return {
+        chunks: this.middleware.wrapStream(
+          context,
+          this.usageTracker
+            ? this.trackStreamUsage(chunks, endpoint, requestOptions.usageTag)
+            : chunks
+        ),
+        controller,
+      };
+    } catch (error) {
+      release();
+      const { response } = error as AxiosError;
+      // Error bodies of streaming requests arrive unread; parse them for the error details
+      if (response?.data instanceof Readable) {
+        response.data = await readErrorBody(response.data);
+      }
+
+      const openAIError = this.toOpenAIError(error as AxiosError);
+      this.logFailure('POST', endpoint, openAIError, true);
+      const recovered = await this.middleware.onError(context, openAIError);
+      if (recovered !== undefined) {
+        return {
+          chunks: this.middleware.wrapStream(context, toChunkSource<T>(recovered)),
+          controller,
+        };
+      }
+      throw openAIError;
+    }
+  }
+
+  private async *streamAsyncIterable<T>(
+    stream: Readable,
+    signal: AbortSignal,
+    onClose: () => void
+  ): AsyncIterable<T> {
+    const onAbort = () => stream.destroy(new RequestCancelledError('Stream was cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      if (signal.aborted) {
+        throw new RequestCancelledError('Stream was cancelled');
+      }
+
+      yield* iterateJsonEvents<T>(stream);
+    } catch (error) {
+      if (signal.aborted && !(error instanceof RequestCancelledError)) {
+        throw new RequestCancelledError('Stream was cancelled');
+      }
+      throw error;
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+      stream.destroy();
+      onClose();
+    }
+  }
+
+  // Records the usage sent on the last chunk of a stream
+  private async *trackStreamUsage<T>(
+    chunks: AsyncIterable<T>,
+    endpoint: string,
+    tag?: string
+  ): AsyncIterable<T> {
+    for await (const chunk of chunks) {
+      const { usage, model } = chunk as { usage?: unknown; model?: string };
+      this.usageTracker?.record(usage, { model, endpoint, tag });
+      yield chunk;
+    }
+  }
+
+  // === Tools ===
+
+  /**
+   * Registers a local function the model can call through `runTools`.
+   * @param {RegisteredTool} tool - The tool definition and its handler.
+   * @throws {Error} If the tool is invalid.
+   * @example
+   * client.registerTool({
+   *   name: 'get_weather',
+   *   description: 'Gets the current weather for a city.',
+   *   parameters: {
+   *     type: 'object',
+   *     properties: { city: { type: 'string' } },
+   *     required: ['city'],
+   *   },
+   *   handler: async ({ city }) => ({ city, forecast: 'sunny' }),
+   * });
+   */
+  registerTool(tool: RegisteredTool): void {
+    if (
+      typeof tool === 'object' &&
+      typeof tool.name === 'string' &&
+      tool.name.length > 0 &&
+      typeof tool.handler === 'function'
+    ) {
+      this.tools.set(tool.name, tool);
     } else {
-      return this.request<ChatCompletionResponse>('POST', '/chat/completions', payload);
+      throw new Error('Tool must be an object with a name and a handler function');
     }
   }
 
-  private async *streamAsyncIterable<T>(stream: Readable): AsyncIterable<T> {
-    let buffer = '';
+  /**
+   * Removes a previously registered tool.
+   * @param {string} name - The name of the tool to remove.
+   * @returns {boolean} Whether a tool was removed.
+   * @example
+   * client.unregisterTool('get_weather');
+   */
+  unregisterTool(name: string): boolean {
+    return this.tools.delete(name);
+  }
 
-    for await (const chunk of stream) {
-      const data = chunk.toString();
-      buffer += data;
-
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed.startsWith('data:')) {
-          const content = trimmed.replace('data: ', '').trim();
-          if (content === '[DONE]') {
-            return;
-          }
-          const parsed = JSON.parse(content) as T;
-          yield parsed;
+  /**
+   * Retrieves the tool definitions sent to the API for the registered tools.
+   * @returns {ChatCompletionTool[]} The registered tools.
+   * @example
+   * const tools = client.getTools();
+   */
+  getTools(): ChatCompletionTool[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters, strict }) => ({
+      type: 'function',
+      function: { name, description, parameters, strict },
+    }));
+  }
+
+  /**
+   * Runs the model -> tool -> model loop until the model returns a final answer.
+   * Every step (input messages, tool calls, tool results and the final answer)
+   * is recorded in the conversation context.
+   * @param {RunToolsOptions} options - Chat completion options plus `maxIterations`.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<ChatCompletionResponse>} The final chat completion.
+   * @throws {ToolCallError} If no final answer is produced within `maxIterations`.
+   * @example
+   * const response = await client.runTools({
+   *   model: 'gpt-4o',
+   *   messages: [{ role: 'user', content: 'What is the weather in Paris?' }],
+   * });
+   */
+  async runTools(
+    options: RunToolsOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    return this.runToolLoop(this.defaultConversation, options, requestOptions);
+  }
+
+  private async runToolLoop(
+    conversation: Conversation,
+    options: RunToolsOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    const { maxIterations = 10, messages, ...rest } = options;
+    const tools = rest.tools || this.getTools();
+    // Only the first request carries the caller's idempotency key; each later one gets its own
+    const followUpOptions: RequestOptions = withoutIdempotencyKey(requestOptions);
+
+    conversation.addBatchToContext(messages);
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const response = (await this.sendChatCompletion(
+        conversation,
+        {
+          ...rest,
+          ...(tools.length > 0 ? { tools } : {}),
+          messages: [],
+        },
+        iteration === 1 ? requestOptions : followUpOptions
+      )) as ChatCompletionResponse;
+
+      const message = response.choices[0]?.message;
+      if (!message) {
+        throw new ToolCallError('Chat completion returned no message', undefined, response);
+      }
+
+      const toolCalls = message.tool_calls || [];
+      conversation.addToContext(replyToContextEntry(message));
+
+      if (toolCalls.length === 0) {
+        await conversation.flush();
+        return response;
+      }
+
+      this.log('debug', `Tool iteration ${iteration}: ${toolCalls.length} tool call(s)`);
+
+      const results = await Promise.all(
+        toolCalls.map((toolCall) => this.executeToolCall(toolCall))
+      );
+      conversation.addBatchToContext(results);
+    }
+
+    throw new ToolCallError(
+      `Model did not return a final answer within ${maxIterations} iterations`,
+      undefined,
+      { maxIterations }
+    );
+  }
+
+  private async executeToolCall(toolCall: ChatCompletionMessageToolCall): Promise<ContextEntry> {
+    const { name, arguments: rawArguments } = toolCall.function;
+    const tool = this.tools.get(name);
+    let content: string;
+
+    if (!tool) {
+      this.log('warn', `Model called unknown tool "${name}"`);
+      content = JSON.stringify({ error: `Unknown tool "${name}"` });
+    } else {
+      try {
+        const args = rawArguments ? JSON.parse(rawArguments) : {};
+        const result = await tool.handler(args, toolCall);
+        content = typeof result === 'string' ? result : JSON.stringify(result ?? null);
+      } catch (error) {
+        // Report the failure to the model so it can recover or explain it
+        this.log('warn', `Tool "${name}" failed: ${(error as Error).message}`);
+        content = JSON.stringify({ error: (error as Error).message });
+      }
+    }
+
+    return { role: 'tool', tool_call_id: toolCall.id, content };
+  }
+
+  // === Structured Outputs ===
+
+  /**
+   * Creates a chat completion constrained to JSON, parses the reply and validates it
+   * locally against the schema. `json_object` mode is used when no schema is given.
+   * @param {CreateStructuredChatCompletionOptions} options - Chat completion options plus the schema.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<StructuredChatCompletionResponse<T>>} The response with the parsed reply.
+   * @throws {StructuredOutputError} If the reply is not valid JSON or does not match the schema.
+   * @example
+   * const { parsed } = await client.createStructuredChatCompletion<{ city: string }>({
+   *   model: 'gpt-4o',
+   *   messages: [{ role: 'user', content: 'Which city is the Eiffel Tower in?' }],
+   *   schema: {
+   *     type: 'object',
+   *     properties: { city: { type: 'string' } },
+   *     required: ['city'],
+   *     additionalProperties: false,
+   *   },
+   *   maxRepairAttempts: 1,
+   * });
+   */
+  async createStructuredChatCompletion<T = any>(
+    options: CreateStructuredChatCompletionOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<StructuredChatCompletionResponse<T>> {
+    const { schema, schemaName = 'response', strict, maxRepairAttempts = 0, ...rest } = options;
+    const response_format: ResponseFormat = schema
+      ? {
+          type: 'json_schema',
+          json_schema: { name: schemaName, schema, ...(strict !== undefined ? { strict } : {}) },
         }
+      : { type: 'json_object' };
+    let messages: ChatMessage[] = rest.messages;
+    // Repair requests differ from the first one, so they must not reuse its idempotency key
+    const repairOptions: RequestOptions = withoutIdempotencyKey(requestOptions);
+
+    for (let attempt = 0; ; attempt++) {
+      const response = (await this.createChatCompletion(
+        {
+          ...rest,
+          messages,
+          response_format,
+        },
+        attempt === 0 ? requestOptions : repairOptions
+      )) as ChatCompletionResponse;
+
+      const message = response.choices[0]?.message;
+      if (message?.refusal) {
+        throw new StructuredOutputError(`Model refused to respond: ${message.refusal}`, undefined, {
+          response,
+        });
+      }
+
+      const content = contentToText(message?.content ?? null);
+      const { value, issues } = this.parseStructuredOutput(content, schema);
+      if (issues.length === 0) {
+        return { ...response, parsed: value as T };
       }
+
+      const [issue] = issues;
+      if (attempt >= maxRepairAttempts) {
+        throw new StructuredOutputError(
+          `Model output does not conform to the schema at ${issue.path}: ${issue.message}`,
+          issue.path,
+          { content, issues, response }
+        );
+      }
+
+      this.log(
+        'warn',
+        `Structured output invalid at ${issue.path}, asking the model to repair it (attempt ${attempt + 1}/${maxRepairAttempts})`
+      );
+      messages = [
+        ...messages,
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your previous reply did not match the required JSON format:\n${issues
+            .map(({ path, message: issueMessage }) => `- ${path}: ${issueMessage}`)
+            .join('\n')}\nReply again with corrected JSON only.`,
+        },
+      ];
     }
   }
 
+  private parseStructuredOutput(
+    content: string,
+    schema?: JSONSchema
+  ): { value?: unknown; issues: JSONSchemaIssue[] } {
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error) {
+      return { issues: [{ path: '$', message: `Invalid JSON: ${(error as Error).message}` }] };
+    }
+
+    return { value, issues: schema ? validateJsonSchema(value, schema) : [] };
+  }
+
   // === Embeddings ===
 
   /**
    * Creates an embedding vector representing the input text.
    * @param {CreateEmbeddingOptions} options - Options for creating an embedding.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<EmbeddingResponse>}
    * @example
    * const embedding = await client.createEmbedding({
@@ -350,8 +1320,11 @@ export default class OpenAIClient {
    *   input: 'OpenAI is an AI research lab.',
    * });
    */
-  async createEmbedding(options: CreateEmbeddingOptions): Promise<EmbeddingResponse> {
-    return this.request<EmbeddingResponse>('POST', '/embeddings', options);
+  async createEmbedding(
+    options: CreateEmbeddingOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<EmbeddingResponse> {
+    return this.request<EmbeddingResponse>('POST', '/embeddings', options, {}, requestOptions);
   }
 
   // === Moderation ===
@@ -359,12 +1332,16 @@ export default class OpenAIClient {
   /**
    * Classifies if text violates OpenAI's Content Policy.
    * @param {CreateModerationOptions} options - Options for creating a moderation.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<ModerationResponse>}
    * @example
    * const moderation = await client.createModeration({ input: 'Some text' });
    */
-  async createModeration(options: CreateModerationOptions): Promise<ModerationResponse> {
-    return this.request<ModerationResponse>('POST', '/moderations', options);
+  async createModeration(
+    options: CreateModerationOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<ModerationResponse> {
+    return this.request<ModerationResponse>('POST', '/moderations', options, {}, requestOptions);
   }
 
   // === Edits ===
@@ -372,6 +1349,7 @@ export default class OpenAIClient {
   /**
    * Creates a new edit for the provided input, instruction, and parameters.
    * @param {CreateEditOptions} options - Options for creating an edit.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<EditResponse>}
    * @example
    * const edit = await client.createEdit({
@@ -380,8 +1358,11 @@ export default class OpenAIClient {
    *   instruction: 'Fix the grammar.',
    * });
    */
-  async createEdit(options: CreateEditOptions): Promise<EditResponse> {
-    return this.request<EditResponse>('POST', '/edits', options);
+  async createEdit(
+    options: CreateEditOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<EditResponse> {
+    return this.request<EditResponse>('POST', '/edits', options, {}, requestOptions);
   }
 
   // === Images ===
@@ -389,31 +1370,39 @@ export default class OpenAIClient {
   /**
    * Creates an image given a prompt.
    * @param {CreateImageOptions} options - Options for creating an image.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<ImageResponse>}
    * @example
    * const image = await client.createImage({ prompt: 'A cute puppy' });
    */
-  async createImage(options: CreateImageOptions): Promise<ImageResponse> {
-    return this.request<ImageResponse>('POST', '/images/generations', options);
+  async createImage(
+    options: CreateImageOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<ImageResponse> {
+    return this.request<ImageResponse>('POST', '/images/generations', options, {}, requestOptions);
   }
 
   /**
    * Creates an edited or extended image given an original image and a prompt.
    * @param {CreateImageEditOptions} options - Options for creating an image edit.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<ImageResponse>}
    * @example
    * const imageEdit = await client.createImageEdit({
    *   image: 'path/to/image.png',
-   *   mask: 'path/to/mask.png',
+   *   mask: await toFile(maskBuffer, 'mask.png'),
    *   prompt: 'Add a hat to the person.',
    * });
    */
-  async createImageEdit(options: CreateImageEditOptions): Promise<ImageResponse> {
+  async createImageEdit(
+    options: CreateImageEditOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<ImageResponse> {
     const formData = new FormData();
-    formData.append('image', fs.createReadStream(options.image));
+    appendFile(formData, 'image', await resolveFile(options.image, 'image.png'));
 
     if (options.mask) {
-      formData.append('mask', fs.createReadStream(options.mask));
+      appendFile(formData, 'mask', await resolveFile(options.mask, 'mask.png'));
     }
 
     formData.append('prompt', options.prompt);
@@ -423,51 +1412,73 @@ export default class OpenAIClient {
     if (options.response_format) formData.append('response_format', options.response_format);
     if (options.user) formData.append('user', options.user);
 
-    return this.request<ImageResponse>('POST', '/images/edits', formData, {
-      headers: {
-        ...formData.getHeaders(),
+    return this.request<ImageResponse>(
+      'POST',
+      '/images/edits',
+      formData,
+      {
+        headers: {
+          ...formData.getHeaders(),
+        },
       },
-    });
+      requestOptions
+    );
   }
 
   /**
    * Creates a variation of a given image.
    * @param {CreateImageVariationOptions} options - Options for creating an image variation.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<ImageResponse>}
    * @example
    * const imageVariation = await client.createImageVariation({
-   *   image: 'path/to/image.png',
+   *   image: fs.readFileSync('path/to/image.png'),
    * });
    */
-  async createImageVariation(options: CreateImageVariationOptions): Promise<ImageResponse> {
+  async createImageVariation(
+    options: CreateImageVariationOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<ImageResponse> {
     const formData = new FormData();
-    formData.append('image', fs.createReadStream(options.image));
+    appendFile(formData, 'image', await resolveFile(options.image, 'image.png'));
 
     if (options.n !== undefined) formData.append('n', options.n.toString());
     if (options.size) formData.append('size', options.size);
     if (options.response_format) formData.append('response_format', options.response_format);
     if (options.user) formData.append('user', options.user);
 
-    return this.request<ImageResponse>('POST', '/images/variations', formData, {
-      headers: {
-        ...formData.getHeaders(),
+    return this.request<ImageResponse>(
+      'POST',
+      '/images/variations',
+      formData,
+      {
+        headers: {
+          ...formData.getHeaders(),
+        },
       },
-    });
+      requestOptions
+    );
   }
 
   // === Audio ===
 
   /**
    * Transcribes audio into the input language.
-   * @param {string} filePath - Path to the audio file.
+   * @param {Uploadable} file - A path, in-memory data, a stream or a File. Name in-memory data
+   * and streams with `toFile`, since the filename tells the API the audio format.
    * @param {AudioOptions} options - Options for transcribing audio.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<any>}
    * @example
    * const transcription = await client.transcribeAudio('path/to/audio.mp3');
    */
-  async transcribeAudio(filePath: string, options: AudioOptions = {}): Promise<any> {
+  async transcribeAudio(
+    file: Uploadable,
+    options: AudioOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<any> {
     const formData = new FormData();
-    formData.append('file', fs.createReadStream(filePath));
+    appendFile(formData, 'file', await resolveFile(file, 'audio'));
     formData.append('model', options.model || 'whisper-1');
 
     for (const key in options) {
@@ -476,24 +1487,36 @@ export default class OpenAIClient {
       }
     }
 
-    return this.request<any>('POST', '/audio/transcriptions', formData, {
-      headers: {
-        ...formData.getHeaders(),
+    return this.request<any>(
+      'POST',
+      '/audio/transcriptions',
+      formData,
+      {
+        headers: {
+          ...formData.getHeaders(),
+        },
       },
-    });
+      requestOptions
+    );
   }
 
   /**
    * Translates audio into English.
-   * @param {string} filePath - Path to the audio file.
+   * @param {Uploadable} file - A path, in-memory data, a stream or a File. Name in-memory data
+   * and streams with `toFile`, since the filename tells the API the audio format.
    * @param {AudioOptions} options - Options for translating audio.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<any>}
    * @example
    * const translation = await client.translateAudio('path/to/audio.mp3');
    */
-  async translateAudio(filePath: string, options: AudioOptions = {}): Promise<any> {
+  async translateAudio(
+    file: Uploadable,
+    options: AudioOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<any> {
     const formData = new FormData();
-    formData.append('file', fs.createReadStream(filePath));
+    appendFile(formData, 'file', await resolveFile(file, 'audio'));
     formData.append('model', options.model || 'whisper-1');
 
     for (const key in options) {
@@ -502,85 +1525,758 @@ export default class OpenAIClient {
       }
     }
 
-    return this.request<any>('POST', '/audio/translations', formData, {
-      headers: {
-        ...formData.getHeaders(),
+    return this.request<any>(
+      'POST',
+      '/audio/translations',
+      formData,
+      {
+        headers: {
+          ...formData.getHeaders(),
+        },
       },
-    });
+      requestOptions
+    );
   }
 
   // === Files ===
 
   /**
    * Returns a list of files that belong to the user's organization.
-   * @returns {Promise<ListFilesResponse>}
+   * @param {ListFilesOptions} options - Pagination options and filters.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Page<FileObject>>}
    * @example
-   * const files = await client.listFiles();
+   * const files = await client.listFiles({ purpose: 'batch', limit: 100 });
    */
-  async listFiles(): Promise<ListFilesResponse> {
-    return this.request<ListFilesResponse>('GET', '/files');
+  async listFiles(
+    options: ListFilesOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Page<FileObject>> {
+    return this.requestPage<FileObject>('/files', options, requestOptions);
   }
 
   /**
    * Uploads a file that contains document(s) to be used across various endpoints/features.
-   * @param {UploadFileOptions} options - Options for uploading a file.
+   * @param {UploadFileOptions} options - The file, given as a path, in-memory data, a stream or a
+   * File, and its purpose.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<FileObject>}
    * @example
    * const file = await client.uploadFile({
-   *   filePath: 'path/to/file.jsonl',
+   *   file: 'path/to/file.jsonl',
    *   purpose: 'fine-tune',
+   *   onProgress: ({ bytesSent, totalBytes }) => console.log(`${bytesSent}/${totalBytes}`),
    * });
    */
-  async uploadFile(options: UploadFileOptions): Promise<FileObject> {
+  async uploadFile(
+    options: UploadFileOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileObject> {
+    const source = options.file ?? options.filePath;
+    if (source === undefined) {
+      throw new Error('uploadFile requires a file');
+    }
+
     const formData = new FormData();
-    formData.append('file', fs.createReadStream(options.filePath));
+    const file = await resolveFile(source, 'file');
+    const { onProgress } = options;
+    if (onProgress) {
+      let bytesSent = 0;
+      const data = Buffer.isBuffer(file.data) ? Readable.from([file.data]) : file.data;
+      const counted = countBytes(data, (bytes) => {
+        bytesSent += bytes;
+        onProgress({ bytesSent, totalBytes: file.size });
+      });
+      appendFile(formData, 'file', file, counted);
+    } else {
+      appendFile(formData, 'file', file);
+    }
     formData.append('purpose', options.purpose);
 
-    return this.request<FileObject>('POST', '/files', formData, {
-      headers: {
-        ...formData.getHeaders(),
+    return this.request<FileObject>(
+      'POST',
+      '/files',
+      formData,
+      {
+        headers: {
+          ...formData.getHeaders(),
+        },
       },
-    });
+      requestOptions
+    );
   }
 
   /**
    * Deletes a file.
    * @param {string} fileId - The ID of the file to delete.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<{ id: string; object: string; deleted: boolean }>}
    * @example
    * const result = await client.deleteFile('file-id');
    */
-  async deleteFile(fileId: string): Promise<{ id: string; object: string; deleted: boolean }> {
-    return this.request('DELETE', `/files/${fileId}`);
+  async deleteFile(
+    fileId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<{ id: string; object: string; deleted: boolean }> {
+    return this.request('DELETE', `/files/${fileId}`, null, {}, requestOptions);
   }
 
   /**
    * Retrieves a file.
    * @param {string} fileId - The ID of the file to retrieve.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<FileObject>}
    * @example
    * const file = await client.retrieveFile('file-id');
    */
-  async retrieveFile(fileId: string): Promise<FileObject> {
-    return this.request<FileObject>('GET', `/files/${fileId}`);
+  async retrieveFile(fileId: string, requestOptions: RequestOptions = {}): Promise<FileObject> {
+    return this.request<FileObject>('GET', `/files/${fileId}`, null, {}, requestOptions);
   }
 
   /**
    * Retrieves the content of the specified file.
    * @param {string} fileId - The ID of the file to retrieve.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<Buffer>} - The content of the file as a Buffer.
    * @example
    * const content = await client.retrieveFileContent('file-id');
    */
-  async retrieveFileContent(fileId: string): Promise<FileContent> {
+  async retrieveFileContent(
+    fileId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileContent> {
+    const content = await this.request<ArrayBuffer>(
+      'GET',
+      `/files/${fileId}/content`,
+      null,
+      { responseType: 'arraybuffer' },
+      requestOptions
+    );
+    return Buffer.from(content);
+  }
+
+  // Uploads in-memory content as a file
+  private async uploadContent(
+    content: Buffer,
+    filename: string,
+    purpose: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileObject> {
+    const formData = new FormData();
+    formData.append('file', content, { filename });
+    formData.append('purpose', purpose);
+
+    return this.request<FileObject>(
+      'POST',
+      '/files',
+      formData,
+      { headers: formData.getHeaders() },
+      requestOptions
+    );
+  }
+
+  // === Uploads ===
+
+  /**
+   * Creates an upload that parts of a large file can be added to. Uploads expire after an hour.
+   * @param {CreateUploadOptions} options - The name, purpose, size and MIME type of the file.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Upload>}
+   * @example
+   * const upload = await client.createUpload({
+   *   filename: 'training.jsonl',
+   *   purpose: 'fine-tune',
+   *   bytes: 2147483648,
+   *   mime_type: 'application/jsonl',
+   * });
+   */
+  async createUpload(
+    options: CreateUploadOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<Upload> {
+    return this.request<Upload>('POST', '/uploads', options, {}, requestOptions);
+  }
+
+  /**
+   * Adds a part of at most 64 MiB to an upload.
+   * @param {string} uploadId - The ID of the upload.
+   * @param {Buffer | Readable} data - The content of the part.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<UploadPart>}
+   * @example
+   * const part = await client.addUploadPart('upload-id', chunk);
+   */
+  async addUploadPart(
+    uploadId: string,
+    data: Buffer | Readable,
+    requestOptions: RequestOptions = {}
+  ): Promise<UploadPart> {
+    const formData = new FormData();
+    formData.append('data', data, { filename: 'part' });
+
+    return this.request<UploadPart>(
+      'POST',
+      `/uploads/${uploadId}/parts`,
+      formData,
+      { headers: formData.getHeaders() },
+      requestOptions
+    );
+  }
+
+  /**
+   * Completes an upload, creating a file from its parts in the given order.
+   * @param {string} uploadId - The ID of the upload.
+   * @param {CompleteUploadOptions} options - The part IDs in order, and optionally the MD5 of the file.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Upload>} The upload, with the created `file`.
+   * @example
+   * const upload = await client.completeUpload('upload-id', { part_ids: ['part-1', 'part-2'] });
+   */
+  async completeUpload(
+    uploadId: string,
+    options: CompleteUploadOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<Upload> {
+    return this.request<Upload>(
+      'POST',
+      `/uploads/${uploadId}/complete`,
+      options,
+      {},
+      requestOptions
+    );
+  }
+
+  /**
+   * Cancels an upload. No parts can be added to it afterwards.
+   * @param {string} uploadId - The ID of the upload.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Upload>}
+   * @example
+   * const upload = await client.cancelUpload('upload-id');
+   */
+  async cancelUpload(uploadId: string, requestOptions: RequestOptions = {}): Promise<Upload> {
+    return this.request<Upload>('POST', `/uploads/${uploadId}/cancel`, null, {}, requestOptions);
+  }
+
+  /**
+   * Uploads a large local file through the Uploads API: splits it into parts, sends
+   * several at a time, retries failed parts and completes the upload with the MD5 of
+   * the file. If a part still fails, the `UploadError` carries the upload and part IDs
+   * to pass back as `resume`.
+   * @param {UploadLargeFileOptions} options - The file, its purpose, part size, concurrency and progress callback.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<FileObject>} The created file.
+   * @throws {UploadError} If a part cannot be sent.
+   * @example
+   * const file = await client.uploadLargeFile({
+   *   filePath: 'path/to/training.jsonl',
+   *   purpose: 'fine-tune',
+   *   onProgress: ({ bytesSent, totalBytes }) => console.log(`${bytesSent}/${totalBytes}`),
+   * });
+   */
+  async uploadLargeFile(
+    options: UploadLargeFileOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<FileObject> {
+    const {
+      filePath,
+      purpose,
+      partSize,
+      concurrency = DEFAULT_UPLOAD_CONCURRENCY,
+      maxPartRetries = DEFAULT_PART_RETRIES,
+      checksum = true,
+      resume,
+      onProgress,
+    } = options;
+    // Every call of the upload is a separate write, so none may share an idempotency key
+    const callOptions: RequestOptions = withoutIdempotencyKey(requestOptions);
+
+    const { size } = await fs.promises.stat(filePath);
+    const parts = planParts(size, partSize);
+    const uploadId =
+      resume?.uploadId ??
+      (
+        await this.createUpload(
+          {
+            filename: path.basename(filePath),
+            purpose,
+            bytes: size,
+            mime_type: options.mimeType || guessMimeType(filePath),
+          },
+          callOptions
+        )
+      ).id;
+
+    const partIds = parts.map((part) => resume?.partIds[part.index]);
+    const pending = parts.filter((part) => !partIds[part.index]);
+    let bytesSent = parts
+      .filter((part) => partIds[part.index])
+      .reduce((total, part) => total + part.size, 0);
+    const onBytes = (bytes: number) => {
+      bytesSent += bytes;
+      onProgress?.({ bytesSent, totalBytes: size });
+    };
+
+    // Stops the other parts once one has failed for good
+    const controller = new AbortController();
+    const { signal } = requestOptions;
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+
+    let failure: unknown;
+    const sendParts = async () => {
+      while (failure === undefined && pending.length > 0) {
+        const part = pending.shift() as PartRange;
+        try {
+          partIds[part.index] = await this.sendUploadPart(
+            uploadId,
+            filePath,
+            part,
+            maxPartRetries,
+            onBytes,
+            { ...callOptions, signal: controller.signal }
+          );
+        } catch (error) {
+          failure ??= error;
+          controller.abort();
+        }
+      }
+    };
+
     try {
-      const response = await this.client.get(`/files/${fileId}/content`, {
-        responseType: 'arraybuffer',
-      });
-      return Buffer.from(response.data);
-    } catch (error) {
-      this.handleError(error as AxiosError);
+      await Promise.all(Array.from({ length: Math.max(1, concurrency) }, sendParts));
+    } finally {
+      signal?.removeEventListener('abort', abort);
+    }
+    if (failure !== undefined) {
+      if (failure instanceof RequestCancelledError) {
+        throw failure;
+      }
+      const sent = partIds.filter(Boolean).length;
+      throw new UploadError(
+        `Upload ${uploadId} failed after ${sent} of ${parts.length} parts: ${(failure as Error).message}`,
+        uploadId,
+        partIds
+      );
+    }
+
+    const md5 = checksum ? await md5File(filePath) : undefined;
+    const upload = await this.completeUpload(
+      uploadId,
+      { part_ids: partIds as string[], ...(md5 ? { md5 } : {}) },
+      callOptions
+    );
+    this.log('info', `Upload ${uploadId} completed in ${parts.length} parts`);
+    return upload.file as FileObject;
+  }
+
+  // Sends one part of a file, retrying with a fresh stream; axios-retry cannot resend a stream
+  private async sendUploadPart(
+    uploadId: string,
+    filePath: string,
+    part: PartRange,
+    maxRetries: number,
+    onBytes: (bytes: number) => void,
+    requestOptions: RequestOptions
+  ): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      let sent = 0;
+      const data = countBytes(
+        fs.createReadStream(filePath, { start: part.start, end: part.end }),
+        (bytes) => {
+          sent += bytes;
+          onBytes(bytes);
+        }
+      );
+
+      try {
+        const { id } = await this.addUploadPart(uploadId, data, {
+          ...requestOptions,
+          maxRetries: 0,
+        });
+        return id;
+      } catch (error) {
+        onBytes(-sent);
+        if (attempt > maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+        const delay = computeRetryDelay(attempt, (error as OpenAIError).headers, this.retryOptions);
+        this.log(
+          'warn',
+          `Retrying part ${part.index + 1} of upload ${uploadId} in ${delay}ms (attempt ${attempt}/${maxRetries}): ${(error as Error).message}`,
+          { method: 'POST', endpoint: `/uploads/${uploadId}/parts`, attempt, delayMs: delay }
+        );
+        await wait(delay, requestOptions.signal);
+      }
+    }
+  }
+
+  // === Batches ===
+
+  /**
+   * Creates a batch from an uploaded JSONL file of requests.
+   * @param {CreateBatchOptions} options - Options for creating a batch.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Batch>}
+   * @example
+   * const batch = await client.createBatch({
+   *   input_file_id: 'file-id',
+   *   endpoint: '/v1/chat/completions',
+   *   completion_window: '24h',
+   * });
+   */
+  async createBatch(
+    options: CreateBatchOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<Batch> {
+    return this.request<Batch>('POST', '/batches', options, {}, requestOptions);
+  }
+
+  /**
+   * Retrieves a batch.
+   * @param {string} batchId - The ID of the batch to retrieve.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Batch>}
+   * @example
+   * const batch = await client.retrieveBatch('batch-id');
+   */
+  async retrieveBatch(batchId: string, requestOptions: RequestOptions = {}): Promise<Batch> {
+    return this.request<Batch>('GET', `/batches/${batchId}`, null, {}, requestOptions);
+  }
+
+  /**
+   * Lists your organization's batches, most recent first.
+   * @param {ListBatchesOptions} options - Pagination options.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Page<Batch>>}
+   * @example
+   * const batches = await client.listBatches({ limit: 10 });
+   */
+  async listBatches(
+    options: ListBatchesOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Page<Batch>> {
+    return this.requestPage<Batch>('/batches', options, requestOptions);
+  }
+
+  /**
+   * Cancels an in-progress batch. The batch is `cancelling` until in-flight requests finish.
+   * @param {string} batchId - The ID of the batch to cancel.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Batch>}
+   * @example
+   * const batch = await client.cancelBatch('batch-id');
+   */
+  async cancelBatch(batchId: string, requestOptions: RequestOptions = {}): Promise<Batch> {
+    return this.request<Batch>('POST', `/batches/${batchId}/cancel`, null, {}, requestOptions);
+  }
+
+  /**
+   * Runs requests as a batch: writes and uploads the JSONL input file, creates the batch,
+   * polls until it ends, and downloads its output and error files. Results of a cancelled
+   * or expired batch only include the requests that ran. Aborting the signal stops waiting
+   * but leaves the batch running.
+   * @param {E} endpoint - The endpoint every request targets.
+   * @param {BatchRequest[]} requests - The request bodies, with unique custom ids.
+   * @param {RunBatchOptions} options - Polling interval, maximum wait, metadata and progress callback.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<RunBatchResponse>} The batch and its results keyed by custom id.
+   * @throws {BatchError} If the batch fails validation or does not end within `maxWait`.
+   * @example
+   * const requests = reviews.map((review) => ({
+   *   custom_id: review.id,
+   *   body: { model: 'gpt-4o-mini', messages: [{ role: 'user', content: review.text }] },
+   * }));
+   * const { results } = await client.runBatch('/v1/chat/completions', requests);
+   * console.log(results[reviews[0].id].body?.choices[0].message.content);
+   */
+  async runBatch<E extends BatchEndpoint>(
+    endpoint: E,
+    requests: BatchRequest<BatchEndpointTypes[E]['request']>[],
+    options: RunBatchOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<RunBatchResponse<BatchEndpointTypes[E]['response']>> {
+    const { pollInterval = DEFAULT_POLL_INTERVAL, maxWait, metadata, onProgress } = options;
+    const input = buildBatchInput(endpoint, requests);
+    // Every call of the run is a separate write, so none may share an idempotency key
+    const callOptions: RequestOptions = withoutIdempotencyKey(requestOptions);
+
+    const file = await this.uploadContent(Buffer.from(input), 'batch.jsonl', 'batch', callOptions);
+    let batch = await this.createBatch(
+      { input_file_id: file.id, endpoint, completion_window: '24h', metadata },
+      callOptions
+    );
+    this.log('info', `Batch ${batch.id} created with ${requests.length} requests`);
+
+    const startedAt = Date.now();
+    while (!TERMINAL_BATCH_STATUSES.includes(batch.status)) {
+      onProgress?.(batch);
+      if (maxWait !== undefined && Date.now() - startedAt + pollInterval > maxWait) {
+        throw new BatchError(`Batch ${batch.id} did not finish within ${maxWait}ms`, batch);
+      }
+      await wait(pollInterval, requestOptions.signal);
+      batch = await this.retrieveBatch(batch.id, callOptions);
+    }
+    onProgress?.(batch);
+    this.log('info', `Batch ${batch.id} ${batch.status}`);
+
+    if (batch.status === 'failed') {
+      const reasons = (batch.errors?.data || []).map((error) => error.message).filter(Boolean);
+      throw new BatchError(
+        `Batch ${batch.id} failed${reasons.length > 0 ? `: ${reasons.join('; ')}` : ''}`,
+        batch
+      );
+    }
+
+    const lines: BatchOutputLine[] = [];
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+      if (fileId) {
+        const content = await this.retrieveFileContent(fileId, callOptions);
+        lines.push(...parseJsonLines<BatchOutputLine>(content.toString('utf8')));
+      }
+    }
+
+    return {
+      batch,
+      results: collectBatchResults<BatchEndpointTypes[E]['response']>(lines),
+    };
+  }
+
+  // === Fine-Tuning Jobs ===
+
+  /**
+   * Creates a fine-tuning job that trains a model on an uploaded dataset.
+   * @param {CreateFineTuningJobOptions} options - Options for creating a fine-tuning job.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<FineTuningJob>}
+   * @example
+   * const job = await client.createFineTuningJob({
+   *   model: 'gpt-4o-mini-2024-07-18',
+   *   training_file: 'file-id',
+   *   method: { type: 'supervised', supervised: { hyperparameters: { n_epochs: 3 } } },
+   * });
+   */
+  async createFineTuningJob(
+    options: CreateFineTuningJobOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<FineTuningJob> {
+    return this.request<FineTuningJob>('POST', '/fine_tuning/jobs', options, {}, requestOptions);
+  }
+
+  /**
+   * Lists your organization's fine-tuning jobs, most recent first.
+   * @param {ListFineTuningJobsOptions} options - Pagination options and a metadata filter.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Page<FineTuningJob>>}
+   * @example
+   * const jobs = await client.listFineTuningJobs({ limit: 10 });
+   */
+  async listFineTuningJobs(
+    options: ListFineTuningJobsOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Page<FineTuningJob>> {
+    return this.requestPage<FineTuningJob>('/fine_tuning/jobs', options, requestOptions);
+  }
+
+  /**
+   * Retrieves a fine-tuning job.
+   * @param {string} jobId - The ID of the fine-tuning job.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<FineTuningJob>}
+   * @example
+   * const job = await client.retrieveFineTuningJob('ftjob-id');
+   */
+  async retrieveFineTuningJob(
+    jobId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<FineTuningJob> {
+    return this.request<FineTuningJob>(
+      'GET',
+      `/fine_tuning/jobs/${jobId}`,
+      null,
+      {},
+      requestOptions
+    );
+  }
+
+  /**
+   * Immediately cancels a fine-tuning job.
+   * @param {string} jobId - The ID of the fine-tuning job to cancel.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<FineTuningJob>}
+   * @example
+   * const job = await client.cancelFineTuningJob('ftjob-id');
+   */
+  async cancelFineTuningJob(
+    jobId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<FineTuningJob> {
+    return this.request<FineTuningJob>(
+      'POST',
+      `/fine_tuning/jobs/${jobId}/cancel`,
+      null,
+      {},
+      requestOptions
+    );
+  }
+
+  /**
+   * Pauses a running fine-tuning job.
+   * @param {string} jobId - The ID of the fine-tuning job to pause.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<FineTuningJob>}
+   * @example
+   * const job = await client.pauseFineTuningJob('ftjob-id');
+   */
+  async pauseFineTuningJob(
+    jobId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<FineTuningJob> {
+    return this.request<FineTuningJob>(
+      'POST',
+      `/fine_tuning/jobs/${jobId}/pause`,
+      null,
+      {},
+      requestOptions
+    );
+  }
+
+  /**
+   * Resumes a paused fine-tuning job.
+   * @param {string} jobId - The ID of the fine-tuning job to resume.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<FineTuningJob>}
+   * @example
+   * const job = await client.resumeFineTuningJob('ftjob-id');
+   */
+  async resumeFineTuningJob(
+    jobId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<FineTuningJob> {
+    return this.request<FineTuningJob>(
+      'POST',
+      `/fine_tuning/jobs/${jobId}/resume`,
+      null,
+      {},
+      requestOptions
+    );
+  }
+
+  /**
+   * Lists the status updates and training metrics of a fine-tuning job, most recent first.
+   * @param {string} jobId - The ID of the fine-tuning job.
+   * @param {CursorPageOptions} options - Pagination options.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Page<FineTuningJobEvent>>}
+   * @example
+   * const events = await client.listFineTuningEvents('ftjob-id', { limit: 20 });
+   */
+  async listFineTuningEvents(
+    jobId: string,
+    options: CursorPageOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Page<FineTuningJobEvent>> {
+    return this.requestPage<FineTuningJobEvent>(
+      `/fine_tuning/jobs/${jobId}/events`,
+      options,
+      requestOptions
+    );
+  }
+
+  /**
+   * Lists the checkpoints saved during a fine-tuning job, most recent first.
+   * @param {string} jobId - The ID of the fine-tuning job.
+   * @param {CursorPageOptions} options - Pagination options.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Page<FineTuningJobCheckpoint>>}
+   * @example
+   * const checkpoints = await client.listFineTuningCheckpoints('ftjob-id');
+   */
+  async listFineTuningCheckpoints(
+    jobId: string,
+    options: CursorPageOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<Page<FineTuningJobCheckpoint>> {
+    return this.requestPage<FineTuningJobCheckpoint>(
+      `/fine_tuning/jobs/${jobId}/checkpoints`,
+      options,
+      requestOptions
+    );
+  }
+
+  /**
+   * Polls a fine-tuning job until it ends, passing its new events to `onEvent` as they appear.
+   * Aborting the signal stops waiting but leaves the job running.
+   * @param {string} jobId - The ID of the fine-tuning job.
+   * @param {WaitForFineTuningJobOptions} options - Polling interval, maximum wait and callbacks.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<string>} The ID of the fine-tuned model.
+   * @throws {FineTuningError} If the job fails, is cancelled or does not end within `maxWait`.
+   * @example
+   * const model = await client.waitForFineTuningJob(job.id, {
+   *   onEvent: (event) => console.log(event.message),
+   * });
+   */
+  async waitForFineTuningJob(
+    jobId: string,
+    options: WaitForFineTuningJobOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<string> {
+    const { pollInterval = DEFAULT_POLL_INTERVAL, maxWait, onEvent, onProgress } = options;
+    const startedAt = Date.now();
+    let lastEventId: string | undefined;
+
+    for (;;) {
+      const job = await this.retrieveFineTuningJob(jobId, requestOptions);
+      if (onEvent) {
+        const events = await this.newFineTuningEvents(jobId, lastEventId, requestOptions);
+        events.forEach((event) => onEvent(event));
+        lastEventId = events.length > 0 ? events[events.length - 1].id : lastEventId;
+      }
+      onProgress?.(job);
+
+      if (job.status === 'succeeded') {
+        this.log('info', `Fine-tuning job ${jobId} succeeded: ${job.fine_tuned_model}`);
+        return job.fine_tuned_model as string;
+      }
+      if (job.status === 'failed') {
+        throw new FineTuningError(
+          `Fine-tuning job ${jobId} failed${job.error?.message ? `: ${job.error.message}` : ''}`,
+          job
+        );
+      }
+      if (job.status === 'cancelled') {
+        throw new FineTuningError(`Fine-tuning job ${jobId} was cancelled`, job);
+      }
+      if (maxWait !== undefined && Date.now() - startedAt + pollInterval > maxWait) {
+        throw new FineTuningError(
+          `Fine-tuning job ${jobId} did not finish within ${maxWait}ms`,
+          job
+        );
+      }
+      await wait(pollInterval, requestOptions.signal);
+    }
+  }
+
+  // Returns the events newer than the given one, oldest first; the API lists them newest first
+  private async newFineTuningEvents(
+    jobId: string,
+    lastEventId: string | undefined,
+    requestOptions: RequestOptions
+  ): Promise<FineTuningJobEvent[]> {
+    const events: FineTuningJobEvent[] = [];
+    const page = await this.listFineTuningEvents(jobId, { limit: 100 }, requestOptions);
+    for await (const event of page) {
+      if (event.id === lastEventId) {
+        break;
+      }
+      events.push(event);
     }
+    return events.reverse();
   }
 
   // === Fine-Tunes ===
@@ -588,67 +2284,103 @@ export default class OpenAIClient {
   /**
    * Creates a job that fine-tunes a specified model from a given dataset.
    * @param {CreateFineTuneOptions} options - Options for creating a fine-tune.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<FineTuneResponse>}
+   * @deprecated The `/fine-tunes` endpoints are retired; use `createFineTuningJob`.
    * @example
    * const fineTune = await client.createFineTune({ training_file: 'file-id' });
    */
-  async createFineTune(options: CreateFineTuneOptions): Promise<FineTuneResponse> {
-    return this.request<FineTuneResponse>('POST', '/fine-tunes', options);
+  async createFineTune(
+    options: CreateFineTuneOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<FineTuneResponse> {
+    return this.request<FineTuneResponse>('POST', '/fine-tunes', options, {}, requestOptions);
   }
 
   /**
    * List your organization's fine-tuning jobs.
-   * @returns {Promise<{ object: string; data: FineTuneResponse[] }>}
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Page<FineTuneResponse>>}
+   * @deprecated The `/fine-tunes` endpoints are retired; use `listFineTuningJobs`.
    * @example
    * const fineTunes = await client.listFineTunes();
    */
-  async listFineTunes(): Promise<{ object: string; data: FineTuneResponse[] }> {
-    return this.request<{ object: string; data: FineTuneResponse[] }>('GET', '/fine-tunes');
+  async listFineTunes(requestOptions: RequestOptions = {}): Promise<Page<FineTuneResponse>> {
+    return this.requestPage<FineTuneResponse>('/fine-tunes', {}, requestOptions);
   }
 
   /**
    * Retrieves a fine-tune job.
    * @param {string} fineTuneId - The ID of the fine-tune job.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<FineTuneResponse>}
+   * @deprecated The `/fine-tunes` endpoints are retired; use `retrieveFineTuningJob`.
    * @example
    * const fineTune = await client.retrieveFineTune('fine-tune-id');
    */
-  async retrieveFineTune(fineTuneId: string): Promise<FineTuneResponse> {
-    return this.request<FineTuneResponse>('GET', `/fine-tunes/${fineTuneId}`);
+  async retrieveFineTune(
+    fineTuneId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<FineTuneResponse> {
+    return this.request<FineTuneResponse>(
+      'GET',
+      `/fine-tunes/${fineTuneId}`,
+      null,
+      {},
+      requestOptions
+    );
   }
 
   /**
    * Immediately cancel a fine-tune job.
    * @param {string} fineTuneId - The ID of the fine-tune job to cancel.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<FineTuneResponse>}
+   * @deprecated The `/fine-tunes` endpoints are retired; use `cancelFineTuningJob`.
    * @example
    * const cancelledFineTune = await client.cancelFineTune('fine-tune-id');
    */
-  async cancelFineTune(fineTuneId: string): Promise<FineTuneResponse> {
-    return this.request<FineTuneResponse>('POST', `/fine-tunes/${fineTuneId}/cancel`);
+  async cancelFineTune(
+    fineTuneId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<FineTuneResponse> {
+    return this.request<FineTuneResponse>(
+      'POST',
+      `/fine-tunes/${fineTuneId}/cancel`,
+      null,
+      {},
+      requestOptions
+    );
   }
 
   /**
    * Gets fine-grained status updates for a fine-tune job.
    * @param {string} fineTuneId - The ID of the fine-tune job.
-   * @returns {Promise<ListFineTuneEventsResponse>}
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
+   * @returns {Promise<Page<FineTuneEvent>>}
+   * @deprecated The `/fine-tunes` endpoints are retired; use `listFineTuningEvents`.
    * @example
    * const events = await client.listFineTuneEvents('fine-tune-id');
    */
-  async listFineTuneEvents(fineTuneId: string): Promise<ListFineTuneEventsResponse> {
-    return this.request<ListFineTuneEventsResponse>('GET', `/fine-tunes/${fineTuneId}/events`);
+  async listFineTuneEvents(
+    fineTuneId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<Page<FineTuneEvent>> {
+    return this.requestPage<FineTuneEvent>(`/fine-tunes/${fineTuneId}/events`, {}, requestOptions);
   }
 
   /**
    * Deletes a fine-tuned model. You must have the Owner role in your organization.
    * @param {string} modelId - The ID of the model to delete.
+   * @param {RequestOptions} requestOptions - Per-request options (abort signal, headers, timeout, retries).
    * @returns {Promise<{ id: string; object: string; deleted: boolean }>}
    * @example
    * const result = await client.deleteFineTunedModel('model-id');
    */
   async deleteFineTunedModel(
-    modelId: string
+    modelId: string,
+    requestOptions: RequestOptions = {}
   ): Promise<{ id: string; object: string; deleted: boolean }> {
-    return this.request('DELETE', `/models/${modelId}`);
+    return this.request('DELETE', `/models/${modelId}`, null, {}, requestOptions);
   }
 }
@@ -0,0 +1,76 @@
+// src/pagination.ts
+
+import { OpenAIError } from './errors';
+import { CursorPage, CursorPageOptions } from './types';
+
+/**
+ * One page of a list endpoint. Iterating it with `for await` yields every item of
+ * this page and of the following ones, fetching them as needed.
+ * @example
+ * const page = await client.listFiles({ limit: 100 });
+ * for await (const file of page) {
+ *   console.log(file.id);
+ * }
+ */
+export class Page<T> implements AsyncIterable<T> {
+  object!: string;
+  data!: T[];
+  has_more?: boolean;
+  first_id?: string | null;
+  last_id?: string | null;
+
+  private params!: CursorPageOptions;
+  private fetchPage!: (params: CursorPageOptions) => Promise<Page<T>>;
+
+  /**
+   * @param {CursorPage<T>} body - The response body of the list endpoint.
+   * @param {CursorPageOptions} params - The parameters the page was requested with.
+   * @param {(params: CursorPageOptions) => Promise<Page<T>>} fetchPage - Requests another page.
+   */
+  constructor(
+    body: CursorPage<T> | { object: string; data: T[] },
+    params: CursorPageOptions,
+    fetchPage: (params: CursorPageOptions) => Promise<Page<T>>
+  ) {
+    Object.assign(this, body);
+    this.data = Array.isArray(this.data) ? this.data : [];
+    // Kept off the enumerable fields, so a page compares and serializes like its response body
+    Object.defineProperty(this, 'params', { value: params, enumerable: false });
+    Object.defineProperty(this, 'fetchPage', { value: fetchPage, enumerable: false });
+  }
+
+  /**
+   * Tells whether the endpoint has more items after this page.
+   * @returns {boolean}
+   */
+  hasNextPage(): boolean {
+    return this.has_more === true && this.data.length > 0;
+  }
+
+  /**
+   * Fetches the page after this one.
+   * @returns {Promise<Page<T>>}
+   * @throws {OpenAIError} If this is the last page.
+   */
+  async getNextPage(): Promise<Page<T>> {
+    if (!this.hasNextPage()) {
+      throw new OpenAIError('No next page; check hasNextPage() first');
+    }
+    const lastItem = this.data[this.data.length - 1] as { id?: string };
+    return this.fetchPage({ ...this.params, after: this.last_id || lastItem.id });
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for (const item of this.data) {
+      yield item;
+    }
+
+    let page = this.hasNextPage() ? await this.getNextPage() : undefined;
+    while (page) {
+      for (const item of page.data) {
+        yield item;
+      }
+      page = page.hasNextPage() ? await page.getNextPage() : undefined;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+// src/polling.ts
+
+import { RequestCancelledError } from './errors';
+
+/**
+ * Waits for the given time, or until the signal aborts.
+ * @param {number} ms - The time to wait, in milliseconds.
+ * @param {AbortSignal} signal - Cancels the wait.
+ * @returns {Promise<void>}
+ * @throws {RequestCancelledError} If the signal aborts.
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new RequestCancelledError('Request was cancelled'));
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError('Request was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
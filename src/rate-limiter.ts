@@ -0,0 +1,204 @@
+// src/rate-limiter.ts
+
+import { RequestCancelledError } from './errors';
+import { parseResetDuration } from './retry-policy';
+import { countMessageTokens, countTokens } from './token-counter';
+import { RateLimitInfo, RateLimitOptions, RateLimitState } from './types';
+
+const WINDOW_MS = 60000;
+
+interface Bucket {
+  capacity: number;
+  available: number;
+}
+
+interface QueuedRequest {
+  tokens: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+const createBucket = (perMinute?: number): Bucket | undefined =>
+  perMinute && perMinute > 0 ? { capacity: perMinute, available: perMinute } : undefined;
+
+// Requests larger than the whole bucket wait for a full bucket instead of forever
+const waitTime = (bucket: Bucket | undefined, amount: number): number => {
+  if (!bucket) {
+    return 0;
+  }
+  const needed = Math.min(amount, bucket.capacity);
+  return bucket.available >= needed
+    ? 0
+    : ((needed - bucket.available) * WINDOW_MS) / bucket.capacity;
+};
+
+const textTokens = (value: unknown, model: string): number => {
+  if (typeof value === 'string') {
+    return countTokens(value, model);
+  }
+  if (typeof value === 'number') {
+    // Inputs may be given as token ids
+    return 1;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce((total: number, item) => total + textTokens(item, model), 0);
+  }
+  return 0;
+};
+
+/**
+ * Reads the `x-ratelimit-*` headers of a response.
+ * @param {Record<string, any>} headers - The response headers.
+ * @param {number} now - The current time, used to turn reset durations into times.
+ * @returns {RateLimitState | undefined} The state, or undefined if no header was present.
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, any> | undefined,
+  now: number = Date.now()
+): RateLimitState | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const read = (kind: 'requests' | 'tokens'): RateLimitInfo => {
+    const limit = parseInt(headers[`x-ratelimit-limit-${kind}`], 10);
+    const remaining = parseInt(headers[`x-ratelimit-remaining-${kind}`], 10);
+    const reset = parseResetDuration(String(headers[`x-ratelimit-reset-${kind}`] ?? ''));
+    return {
+      ...(isNaN(limit) ? {} : { limit }),
+      ...(isNaN(remaining) ? {} : { remaining }),
+      ...(reset === undefined ? {} : { resetAt: now + reset }),
+    };
+  };
+
+  const requests = read('requests');
+  const tokens = read('tokens');
+  if (Object.keys(requests).length === 0 && Object.keys(tokens).length === 0) {
+    return undefined;
+  }
+  return { requests, tokens, updatedAt: now };
+}
+
+/**
+ * Estimates the tokens a request counts against the tokens-per-minute limit:
+ * its prompt (messages, prompt or input) plus `max_tokens`.
+ * @param {any} data - The request payload.
+ * @returns {number}
+ */
+export function estimateRequestTokens(data: any): number {
+  if (!data || typeof data !== 'object') {
+    return 0;
+  }
+
+  const model = typeof data.model === 'string' ? data.model : '';
+  const promptTokens = Array.isArray(data.messages)
+    ? countMessageTokens(data.messages, model)
+    : textTokens(data.prompt ?? data.input, model);
+  return promptTokens + (data.max_completion_tokens ?? data.max_tokens ?? 0);
+}
+
+/**
+ * Token-bucket scheduler that queues requests, in order, until both the request
+ * and the token budget allow them. Budgets refill continuously over a minute.
+ * @example
+ * const limiter = new RateLimiter({ requestsPerMinute: 500, tokensPerMinute: 30000 });
+ * await limiter.acquire(estimateRequestTokens(payload));
+ */
+export class RateLimiter {
+  private requests?: Bucket;
+  private tokens?: Bucket;
+  private queue: QueuedRequest[] = [];
+  private timer?: NodeJS.Timeout;
+  private lastRefill = Date.now();
+
+  constructor(options: RateLimitOptions) {
+    this.requests = createBucket(options.requestsPerMinute);
+    this.tokens = createBucket(options.tokensPerMinute);
+  }
+
+  /**
+   * Waits until one request using the given number of tokens may be sent.
+   * @param {number} tokens - The estimated tokens of the request.
+   * @param {AbortSignal} signal - Removes the request from the queue when aborted.
+   * @returns {Promise<void>}
+   * @throws {RequestCancelledError} If the signal aborts while the request is queued.
+   */
+  acquire(tokens = 0, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError('Request was cancelled'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueuedRequest = { tokens, resolve, reject, signal };
+      if (signal) {
+        entry.onAbort = () => {
+          this.queue = this.queue.filter((queued) => queued !== entry);
+          reject(new RequestCancelledError('Request was cancelled'));
+          this.drain();
+        };
+        signal.addEventListener('abort', entry.onAbort, { once: true });
+      }
+      this.queue.push(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Lowers the local budgets to what the server reports as remaining.
+   * @param {RateLimitState} state - The latest rate-limit headers.
+   */
+  sync(state: RateLimitState): void {
+    this.refill();
+    const clamp = (bucket: Bucket | undefined, remaining?: number) => {
+      if (bucket && remaining !== undefined) {
+        bucket.available = Math.min(bucket.available, remaining);
+      }
+    };
+    clamp(this.requests, state.requests.remaining);
+    clamp(this.tokens, state.tokens.remaining);
+  }
+
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.refill();
+
+    while (this.queue.length > 0) {
+      const entry = this.queue[0];
+      const wait = Math.max(waitTime(this.requests, 1), waitTime(this.tokens, entry.tokens));
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), Math.ceil(wait));
+        return;
+      }
+
+      this.queue.shift();
+      if (this.requests) {
+        this.requests.available -= 1;
+      }
+      if (this.tokens) {
+        this.tokens.available -= entry.tokens;
+      }
+      if (entry.signal && entry.onAbort) {
+        entry.signal.removeEventListener('abort', entry.onAbort);
+      }
+      entry.resolve();
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+
+    for (const bucket of [this.requests, this.tokens]) {
+      if (bucket) {
+        bucket.available = Math.min(
+          bucket.capacity,
+          bucket.available + (elapsed * bucket.capacity) / WINDOW_MS
+        );
+      }
+    }
+  }
+}
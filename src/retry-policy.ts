@@ -0,0 +1,208 @@
+// src/retry-policy.ts
+
+import { AxiosError } from 'axios';
+import { IAxiosRetryConfig, IAxiosRetryConfigExtended } from 'axios-retry';
+import { Stream } from 'stream';
+import { ConnectionError, OpenAIError, RequestCancelledError } from './errors';
+import { LogLevel, LogRecord, RetryOptions } from './types';
+
+type RetryState = IAxiosRetryConfigExtended & {
+  nextDelay?: number;
+  totalDelay?: number;
+};
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 3,
+  initialDelay: 500,
+  maxDelay: 8000,
+  maxTotalDelay: 60000,
+};
+
+const RETRYABLE_STATUSES = [408, 409, 429];
+
+// Reset durations look like "1s", "6m0s", "20ms" or "1h2m3.5s"
+const DURATION_PATTERN =
+  /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/;
+
+const describeRequest = (error: AxiosError): string =>
+  `${(error.config?.method || 'GET').toUpperCase()} ${error.config?.url || ''}`.trim();
+
+const retryRecord = (error: AxiosError, attempt: number, delayMs: number): LogRecord => ({
+  method: (error.config?.method || 'GET').toUpperCase(),
+  endpoint: error.config?.url,
+  status: error.response?.status,
+  attempt,
+  delayMs,
+});
+
+/**
+ * Tells whether a failed request is worth retrying: network errors, timeouts,
+ * 408, 409, 429 and 5xx responses. Cancelled requests are never retried, and neither
+ * are requests with a stream body, such as multipart forms, which the first attempt used up.
+ * @param {AxiosError} error - The failed request.
+ * @returns {boolean}
+ */
+export function isRetryableRequestError(error: AxiosError): boolean {
+  if (error.code === AxiosError.ERR_CANCELED || error.config?.data instanceof Stream) {
+    return false;
+  }
+  if (!error.response) {
+    return true;
+  }
+  const { status } = error.response;
+  return RETRYABLE_STATUSES.includes(status) || status >= 500;
+}
+
+/**
+ * Tells whether an error thrown by a client call is worth retrying, by the same rules
+ * as `isRetryableRequestError`.
+ * @param {unknown} error - The error.
+ * @returns {boolean}
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RequestCancelledError || !(error instanceof OpenAIError)) {
+    return false;
+  }
+  if (error instanceof ConnectionError) {
+    return true;
+  }
+  const status = error.statusCode;
+  return status !== undefined && (RETRYABLE_STATUSES.includes(status) || status >= 500);
+}
+
+/**
+ * Parses a rate-limit reset duration such as "6m0s" into milliseconds.
+ * @param {string} value - The header value.
+ * @returns {number | undefined} The duration, or undefined if the value is not a duration.
+ */
+export function parseResetDuration(value: string): number | undefined {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match || match.slice(1).every((part) => part === undefined)) {
+    return undefined;
+  }
+  const [hours, minutes, seconds, milliseconds] = match
+    .slice(1)
+    .map((part) => (part === undefined ? 0 : parseFloat(part)));
+  return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000 + milliseconds);
+}
+
+/**
+ * Reads how long the server asked us to wait from `retry-after-ms`, `retry-after`
+ * or, when a limit is exhausted, the matching `x-ratelimit-reset-*` header.
+ * @param {Record<string, any>} headers - The response headers.
+ * @param {number} now - The current time, used for HTTP-date values.
+ * @returns {number | undefined} The delay in milliseconds, if the server provided one.
+ */
+export function serverRetryDelay(
+  headers: Record<string, any> | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const retryAfterMs = parseFloat(headers['retry-after-ms']);
+  if (!isNaN(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const resets = ['requests', 'tokens']
+    .filter((kind) => headers[`x-ratelimit-remaining-${kind}`] === '0')
+    .map((kind) => parseResetDuration(String(headers[`x-ratelimit-reset-${kind}`] ?? '')))
+    .filter((delay): delay is number => delay !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Computes the wait before a retry: the server-provided delay when there is one,
+ * otherwise exponential backoff capped at `maxDelay`. Both get random jitter.
+ * @param {number} attempt - The retry number, starting at 1.
+ * @param {Record<string, any>} headers - The headers of the failed response.
+ * @param {RetryOptions} options - The retry options.
+ * @returns {number} The delay in milliseconds.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  headers: Record<string, any> | undefined,
+  options: RetryOptions = {}
+): number {
+  const { initialDelay, maxDelay } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const serverDelay = serverRetryDelay(headers);
+  if (serverDelay !== undefined) {
+    // Never retry before the server allows it; spread clients that were told the same time
+    return Math.round(serverDelay * (1 + Math.random() * 0.1));
+  }
+  const backoff = Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+  return Math.round(backoff * (1 - Math.random() * 0.25));
+}
+
+/**
+ * Builds the axios-retry configuration used by `OpenAIClient`. Retries stop once
+ * the next wait would push the total time spent waiting past `maxTotalDelay`.
+ * @param {RetryOptions} options - The retry options.
+ * @param {(level: LogLevel, message: string, record?: LogRecord) => void} log - Logs each retry attempt.
+ * @returns {IAxiosRetryConfig}
+ */
+export function createRetryPolicy(
+  options: RetryOptions = {},
+  log: (level: LogLevel, message: string, record?: LogRecord) => void
+): IAxiosRetryConfig {
+  const resolved = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  return {
+    retries: resolved.maxRetries,
+    retryCondition: (error) => {
+      if (!isRetryableRequestError(error)) {
+        return false;
+      }
+
+      // axios-retry keeps its state on the request config, so it survives between attempts
+      const state = (error.config?.['axios-retry'] || {}) as RetryState;
+      const delay = computeRetryDelay(
+        (state.retryCount || 0) + 1,
+        error.response?.headers,
+        resolved
+      );
+      const totalDelay = (state.totalDelay || 0) + delay;
+      if (totalDelay > resolved.maxTotalDelay) {
+        log(
+          'warn',
+          `Not retrying ${describeRequest(error)}: waiting ${delay}ms would exceed the ${resolved.maxTotalDelay}ms retry budget`,
+          retryRecord(error, (state.retryCount || 0) + 1, delay)
+        );
+        return false;
+      }
+
+      state.nextDelay = delay;
+      state.totalDelay = totalDelay;
+      return true;
+    },
+    retryDelay: (retryCount, error) => {
+      const state = error.config?.['axios-retry'] as RetryState | undefined;
+      return state?.nextDelay ?? computeRetryDelay(retryCount, error.response?.headers, resolved);
+    },
+    onRetry: (retryCount, error, requestConfig) => {
+      const state = requestConfig['axios-retry'] as RetryState | undefined;
+      const reason = error.response
+        ? `status ${error.response.status}`
+        : error.code || error.message;
+      log(
+        'warn',
+        `Retrying ${describeRequest(error)} in ${state?.nextDelay ?? 0}ms (attempt ${retryCount}/${state?.retries ?? resolved.maxRetries}): ${reason}`,
+        retryRecord(error, retryCount, state?.nextDelay ?? 0)
+      );
+    },
+  };
+}
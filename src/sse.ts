@@ -0,0 +1,207 @@
+// src/sse.ts
+
+import { StringDecoder } from 'string_decoder';
+import { APIError, OpenAIError } from './errors';
+import { ServerSentEvent } from './types';
+
+/**
+ * Incremental decoder for the Server-Sent Events format (as specified by WHATWG).
+ * Chunks may split lines, CRLF pairs or multi-byte UTF-8 characters at any point.
+ * @example
+ * const decoder = new SSEDecoder();
+ * for await (const chunk of response) {
+ *   for (const event of decoder.decode(chunk)) {
+ *     console.log(event.event, event.data);
+ *   }
+ * }
+ * decoder.flush();
+ */
+export class SSEDecoder {
+  private textDecoder = new StringDecoder('utf8');
+  private buffer = '';
+  private started = false;
+  private event: string | null = null;
+  private data: string[] = [];
+  private lastEventId: string | null = null;
+  private retry?: number;
+
+  /**
+   * Decodes a chunk of the stream.
+   * @param {Buffer | Uint8Array | string} chunk - The next chunk of the stream.
+   * @returns {ServerSentEvent[]} The events completed by this chunk.
+   */
+  decode(chunk: Buffer | Uint8Array | string): ServerSentEvent[] {
+    const text = typeof chunk === 'string' ? chunk : this.textDecoder.write(Buffer.from(chunk));
+    return this.processText(text, false);
+  }
+
+  /**
+   * Ends the stream. An event that was not terminated by a blank line is discarded.
+   * @returns {ServerSentEvent[]} Events completed by the remaining input.
+   */
+  flush(): ServerSentEvent[] {
+    const events = this.processText(this.textDecoder.end(), true);
+    this.buffer = '';
+    this.event = null;
+    this.data = [];
+    this.retry = undefined;
+    return events;
+  }
+
+  private processText(text: string, final: boolean): ServerSentEvent[] {
+    let input = this.buffer + text;
+    if (!this.started && input.length > 0) {
+      this.started = true;
+      // A leading byte order mark is not part of the first line
+      if (input.startsWith('\uFEFF')) {
+        input = input.slice(1);
+      }
+    }
+
+    const events: ServerSentEvent[] = [];
+    let lineStart = 0;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (char !== '\r' && char !== '\n') {
+        continue;
+      }
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (char === '\r' && i === input.length - 1 && !final) {
+        break;
+      }
+
+      const event = this.processLine(input.slice(lineStart, i));
+      if (event) {
+        events.push(event);
+      }
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      lineStart = i + 1;
+    }
+
+    this.buffer = input.slice(lineStart);
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.event = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      default:
+      // Unknown fields are ignored
+    }
+    return null;
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    const { event, data, retry } = this;
+    this.event = null;
+    this.data = [];
+    this.retry = undefined;
+
+    if (data.length === 0) {
+      return null;
+    }
+    return {
+      event,
+      data: data.join('\n'),
+      id: this.lastEventId,
+      ...(retry !== undefined ? { retry } : {}),
+    };
+  }
+}
+
+/**
+ * Decodes a byte stream into Server-Sent Events.
+ * @param {AsyncIterable<Buffer | Uint8Array | string>} stream - The response body.
+ * @returns {AsyncGenerator<ServerSentEvent>}
+ */
+export async function* iterateEvents(
+  stream: AsyncIterable<Buffer | Uint8Array | string>
+): AsyncGenerator<ServerSentEvent> {
+  const decoder = new SSEDecoder();
+  for await (const chunk of stream) {
+    for (const event of decoder.decode(chunk)) {
+      yield event;
+    }
+  }
+  for (const event of decoder.flush()) {
+    yield event;
+  }
+}
+
+/**
+ * Decodes an OpenAI event stream into its JSON payloads, stopping at `[DONE]`.
+ * @param {AsyncIterable<Buffer | Uint8Array | string>} stream - The response body.
+ * @returns {AsyncGenerator<T>}
+ * @throws {APIError} If the server reports an error inside the stream.
+ * @throws {OpenAIError} If an event does not contain valid JSON.
+ * @example
+ * for await (const chunk of iterateJsonEvents<ChatCompletionStreamResponse>(response.data)) {
+ *   process.stdout.write(chunk.choices[0]?.delta.content || '');
+ * }
+ */
+export async function* iterateJsonEvents<T>(
+  stream: AsyncIterable<Buffer | Uint8Array | string>
+): AsyncGenerator<T> {
+  for await (const event of iterateEvents(stream)) {
+    if (event.data === '[DONE]') {
+      return;
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(event.data);
+    } catch (error) {
+      if (event.event === 'error') {
+        throw new APIError(event.data || 'Stream returned an error');
+      }
+      throw new OpenAIError(
+        `Could not parse stream event: ${(error as Error).message}`,
+        undefined,
+        { event }
+      );
+    }
+
+    if (event.event === 'error' || (payload && typeof payload === 'object' && payload.error)) {
+      const error = payload?.error ?? payload;
+      throw new APIError(error?.message || 'Stream returned an error', undefined, error, {
+        code: error?.code,
+        type: error?.type,
+        param: error?.param,
+      });
+    }
+
+    yield payload as T;
+  }
+}
@@ -0,0 +1,283 @@
+// src/streams.ts
+
+import { ChatCompletionAccumulator } from './chat-completion-accumulator';
+import {
+  ChatCompletionStreamResponse,
+  ChatMessage,
+  CompletionChoice,
+  CompletionStreamResponse,
+  CompletionUsage,
+  StreamedChatCompletionResponse,
+  StreamedCompletionResponse,
+} from './types';
+
+type TextListener = (delta: string, snapshot: string, choiceIndex: number) => void;
+
+/**
+ * Async-iterable wrapper around a stream of chunks that notifies listeners as
+ * chunks arrive and rebuilds the final response once the stream ends.
+ * The stream can be iterated once; `finalResponse()` consumes it if nobody iterates it.
+ */
+abstract class BaseStream<TChunk, TResponse> implements AsyncIterable<TChunk> {
+  private source: AsyncIterable<TChunk>;
+  private controller?: AbortController;
+  private started = false;
+  private chunkListeners: Array<(chunk: TChunk) => void> = [];
+  private doneListeners: Array<(response: TResponse) => void> = [];
+  private errorListeners: Array<(error: Error) => void> = [];
+  private completion: Promise<TResponse>;
+  private resolveCompletion!: (response: TResponse) => void;
+  private rejectCompletion!: (error: Error) => void;
+
+  constructor(source: AsyncIterable<TChunk>, controller?: AbortController) {
+    this.source = source;
+    this.controller = controller;
+    this.completion = new Promise<TResponse>((resolve, reject) => {
+      this.resolveCompletion = resolve;
+      this.rejectCompletion = reject;
+    });
+    // Failures are also reported to onError listeners; nobody has to await the completion
+    this.completion.catch(() => undefined);
+  }
+
+  /**
+   * Registers a listener called with every raw chunk.
+   * @param {(chunk: TChunk) => void} listener - The listener.
+   * @returns {this}
+   */
+  onChunk(listener: (chunk: TChunk) => void): this {
+    this.chunkListeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Registers a listener called with the rebuilt response once the stream ends.
+   * @param {(response: TResponse) => void} listener - The listener.
+   * @returns {this}
+   */
+  onDone(listener: (response: TResponse) => void): this {
+    this.doneListeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Registers a listener called if the stream fails.
+   * @param {(error: Error) => void} listener - The listener.
+   * @returns {this}
+   */
+  onError(listener: (error: Error) => void): this {
+    this.errorListeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Resolves with the response rebuilt from all chunks once the stream ends.
+   * Starts consuming the stream if it is not being iterated.
+   * @returns {Promise<TResponse>}
+   */
+  finalResponse(): Promise<TResponse> {
+    if (!this.started) {
+      this.drain();
+    }
+    return this.completion;
+  }
+
+  /**
+   * Cancels the underlying request. Iteration and `finalResponse()` reject with a
+   * `RequestCancelledError`.
+   */
+  abort(): void {
+    this.controller?.abort();
+    // Nobody is reading the stream yet; consume it so the connection is released
+    if (!this.started) {
+      this.drain();
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<TChunk> {
+    if (this.started) {
+      throw new Error('Stream has already been consumed');
+    }
+    this.started = true;
+    return this.iterate();
+  }
+
+  protected abstract handleChunk(chunk: TChunk): void;
+
+  protected abstract buildResponse(): TResponse;
+
+  private async *iterate(): AsyncGenerator<TChunk> {
+    let settled = false;
+
+    try {
+      for await (const chunk of this.source) {
+        this.handleChunk(chunk);
+        this.chunkListeners.forEach((listener) => listener(chunk));
+        yield chunk;
+      }
+
+      const response = this.buildResponse();
+      settled = true;
+      this.doneListeners.forEach((listener) => listener(response));
+      this.resolveCompletion(response);
+    } catch (error) {
+      settled = true;
+      this.fail(error as Error);
+      throw error;
+    } finally {
+      // The consumer stopped iterating before the end of the stream
+      if (!settled) {
+        this.fail(new Error('Stream was closed before it completed'));
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.errorListeners.forEach((listener) => listener(error));
+    this.rejectCompletion(error);
+  }
+
+  private async drain(): Promise<void> {
+    const iterator = this[Symbol.asyncIterator]();
+    try {
+      while (!(await iterator.next()).done) {
+        // Listeners are notified while iterating
+      }
+    } catch {
+      // Reported through the completion promise and onError listeners
+    }
+  }
+}
+
+/**
+ * Stream returned by `createChatCompletion` when `stream: true`.
+ * @example
+ * const stream = (await client.createChatCompletion({
+ *   model: 'gpt-4o',
+ *   messages: [{ role: 'user', content: 'Tell me a story.' }],
+ *   stream: true,
+ * })) as ChatCompletionStream;
+ *
+ * stream.onText((delta) => process.stdout.write(delta));
+ * const message = await stream.finalMessage();
+ */
+export class ChatCompletionStream extends BaseStream<
+  ChatCompletionStreamResponse,
+  StreamedChatCompletionResponse
+> {
+  private accumulator = new ChatCompletionAccumulator();
+  private textListeners: TextListener[] = [];
+
+  /**
+   * Registers a listener called with every content delta and the text accumulated so far.
+   * @param {TextListener} listener - The listener.
+   * @returns {this}
+   */
+  onText(listener: TextListener): this {
+    this.textListeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Resolves with the assistant message of the first choice once the stream ends.
+   * @returns {Promise<ChatMessage>}
+   */
+  async finalMessage(): Promise<ChatMessage> {
+    await this.finalResponse();
+    return this.accumulator.getMessage();
+  }
+
+  protected handleChunk(chunk: ChatCompletionStreamResponse): void {
+    this.accumulator.add(chunk);
+
+    for (const choice of chunk.choices || []) {
+      const delta = choice.delta?.content;
+      if (typeof delta === 'string' && delta.length > 0) {
+        const snapshot = (this.accumulator.getMessage(choice.index).content as string) || '';
+        this.textListeners.forEach((listener) => listener(delta, snapshot, choice.index));
+      }
+    }
+  }
+
+  protected buildResponse(): StreamedChatCompletionResponse {
+    return this.accumulator.toResponse();
+  }
+}
+
+/**
+ * Stream returned by `createCompletion` when `stream: true`.
+ * @example
+ * const stream = (await client.createCompletion({
+ *   model: 'gpt-3.5-turbo-instruct',
+ *   prompt: 'Once upon a time',
+ *   stream: true,
+ * })) as CompletionStream;
+ *
+ * const text = await stream.onText((delta) => process.stdout.write(delta)).finalText();
+ */
+export class CompletionStream extends BaseStream<
+  CompletionStreamResponse,
+  StreamedCompletionResponse
+> {
+  private choices: Map<number, CompletionChoice> = new Map();
+  private id = '';
+  private created = 0;
+  private model = '';
+  private usage?: CompletionUsage;
+  private textListeners: TextListener[] = [];
+
+  /**
+   * Registers a listener called with every text delta and the text accumulated so far.
+   * @param {TextListener} listener - The listener.
+   * @returns {this}
+   */
+  onText(listener: TextListener): this {
+    this.textListeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Resolves with the text of the first choice once the stream ends.
+   * @returns {Promise<string>}
+   */
+  async finalText(): Promise<string> {
+    await this.finalResponse();
+    return this.choices.get(0)?.text || '';
+  }
+
+  protected handleChunk(chunk: CompletionStreamResponse): void {
+    this.id = this.id || chunk.id;
+    this.created = this.created || chunk.created;
+    this.model = this.model || chunk.model;
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+
+    for (const choice of chunk.choices || []) {
+      let state = this.choices.get(choice.index);
+      if (!state) {
+        state = { text: '', index: choice.index, logprobs: null, finish_reason: '' };
+        this.choices.set(choice.index, state);
+      }
+
+      state.text += choice.text || '';
+      state.finish_reason = choice.finish_reason || state.finish_reason;
+
+      if (choice.text) {
+        const snapshot = state.text;
+        this.textListeners.forEach((listener) => listener(choice.text, snapshot, choice.index));
+      }
+    }
+  }
+
+  protected buildResponse(): StreamedCompletionResponse {
+    return {
+      id: this.id,
+      object: 'text_completion',
+      created: this.created,
+      model: this.model,
+      choices: Array.from(this.choices.values()).sort((a, b) => a.index - b.index),
+      ...(this.usage ? { usage: this.usage } : {}),
+    };
+  }
+}
@@ -0,0 +1,111 @@
+// src/token-counter.ts
+
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenModel } from 'js-tiktoken';
+import { ChatMessage, ChatMessageContent } from './types';
+
+type EncodingName = ReturnType<typeof getEncodingNameForModel>;
+
+// Per-message framing overhead, as documented in the OpenAI cookbook
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_NAME = 1;
+const TOKENS_PER_REPLY = 3;
+
+// Image cost for low detail, and an estimate for a 1024x1024 image at high detail
+// (the exact cost depends on the image dimensions, which are not inspected here)
+const TOKENS_PER_LOW_DETAIL_IMAGE = 85;
+const TOKENS_PER_IMAGE = 765;
+
+const DEFAULT_ENCODING: EncodingName = 'o200k_base';
+
+const encoders = new Map<EncodingName, Tiktoken>();
+
+const encodingNameForModel = (model: string): EncodingName => {
+  // Fine-tuned models are named "ft:<base-model>:<org>:<suffix>:<id>"
+  const baseModel = model.startsWith('ft:') ? model.split(':')[1] : model;
+  try {
+    return getEncodingNameForModel(baseModel as TiktokenModel);
+  } catch {
+    return DEFAULT_ENCODING;
+  }
+};
+
+const encoderForModel = (model: string): Tiktoken => {
+  const encodingName = encodingNameForModel(model);
+  let encoder = encoders.get(encodingName);
+  if (!encoder) {
+    // Building the rank table is expensive, so encoders are created once and reused
+    encoder = getEncoding(encodingName);
+    encoders.set(encodingName, encoder);
+  }
+  return encoder;
+};
+
+/**
+ * Counts the tokens in a string using the encoding of the given model.
+ * Unknown models fall back to the `o200k_base` encoding.
+ * @param {string} text - The text to count.
+ * @param {string} model - The model whose encoding is used.
+ * @returns {number}
+ * @example
+ * const tokens = countTokens('Hello, world!', 'gpt-4o');
+ */
+export function countTokens(text: string, model: string): number {
+  return text ? encoderForModel(model).encode(text).length : 0;
+}
+
+const countContentTokens = (content: ChatMessageContent | null, model: string): number => {
+  if (content === null) {
+    return 0;
+  }
+  if (typeof content === 'string') {
+    return countTokens(content, model);
+  }
+
+  // Audio parts are not counted, as their cost depends on the audio duration
+  return content.reduce((total, part) => {
+    if (part.type === 'text') {
+      return total + countTokens(part.text, model);
+    }
+    if (part.type === 'image_url') {
+      return (
+        total + (part.image_url.detail === 'low' ? TOKENS_PER_LOW_DETAIL_IMAGE : TOKENS_PER_IMAGE)
+      );
+    }
+    return total;
+  }, 0);
+};
+
+/**
+ * Counts the prompt tokens of a list of chat messages, including the
+ * per-message framing overhead and the tokens that prime the reply.
+ * Images are estimated; audio parts are not counted.
+ * @param {ChatMessage[]} messages - The messages to count.
+ * @param {string} model - The model whose encoding is used.
+ * @returns {number}
+ * @example
+ * const tokens = countMessageTokens([{ role: 'user', content: 'Hello' }], 'gpt-4o');
+ */
+export function countMessageTokens(messages: ChatMessage[], model: string): number {
+  let total = TOKENS_PER_REPLY;
+
+  for (const message of messages) {
+    total += TOKENS_PER_MESSAGE + countTokens(message.role, model);
+    total += countContentTokens(message.content, model);
+
+    if (message.name) {
+      total += TOKENS_PER_NAME + countTokens(message.name, model);
+    }
+
+    for (const toolCall of message.tool_calls || []) {
+      total += countTokens(toolCall.function.name, model);
+      total += countTokens(toolCall.function.arguments, model);
+    }
+
+    if (message.function_call) {
+      total += countTokens(message.function_call.name, model);
+      total += countTokens(message.function_call.arguments, model);
+    }
+  }
+
+  return total;
+}
@@ -2,6 +2,8 @@
 
 import { AxiosRequestConfig } from 'axios';
 import { Format } from 'logform';
+import { Readable } from 'stream';
+import { OpenAIError } from './errors';
 
 //
 // Logging Configuration
@@ -26,9 +28,75 @@ export interface LoggingOptions {
   logFilePath?: string;
 
   /**
-   * Custom logging format for Winston logger.
+   * Custom logging format for Winston logger. Applies to the logger the client builds
+   * itself, not to an injected `logger`.
    */
   logFormat?: Format;
+
+  /**
+   * Logger to use instead of the Winston logger the client builds, such as an existing
+   * Winston instance or an adapter over pino. Log levels are left to this logger.
+   */
+  logger?: Logger;
+
+  /**
+   * Disables all logging.
+   */
+  silent?: boolean;
+
+  /**
+   * Redaction applied to everything the client logs. Enabled by default; `false` disables it.
+   */
+  redaction?: RedactionOptions | false;
+}
+
+export interface RedactionOptions {
+  /**
+   * Strings longer than this are truncated. Defaults to 200.
+   */
+  maxStringLength?: number;
+
+  /**
+   * Number arrays (such as embeddings) longer than this are replaced by their length. Defaults to 16.
+   */
+  maxArrayLength?: number;
+
+  /**
+   * Keys whose values are omitted. Defaults to ['b64_json'].
+   */
+  dropKeys?: string[];
+
+  /**
+   * Extra rules: regular expressions are masked wherever they match, and dot-separated key
+   * paths (`*` matches any key or index, e.g. 'messages.*.content') mask the value at that path.
+   */
+  rules?: Array<RegExp | string>;
+}
+
+/**
+ * Structured fields attached to a log message.
+ */
+export interface LogRecord {
+  method?: string;
+  endpoint?: string;
+  stream?: boolean;
+  status?: number;
+  durationMs?: number;
+  requestId?: string;
+  tokens?: { prompt?: number; completion?: number; total?: number };
+  attempt?: number;
+  delayMs?: number;
+  error?: string;
+}
+
+/**
+ * The logger interface the client logs through. Winston loggers implement it as is.
+ */
+export interface Logger {
+  debug(message: string, record?: LogRecord): void;
+  info(message: string, record?: LogRecord): void;
+  warn(message: string, record?: LogRecord): void;
+  error(message: string, record?: LogRecord): void;
 }
 
 //
@@ -62,7 +130,27 @@ export interface OpenAIClientOptions {
   loggingOptions?: LoggingOptions;
 
   /**
-   * Custom axios-retry configuration (plain object type).
+   * Retry policy for failed requests.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Queues requests locally to stay under the given request and token rates.
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Middleware run around every request, in order. More can be added with `client.use()`.
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Aggregates the token usage and estimated cost of every call. Disabled by default.
+   */
+  usageTracking?: boolean | UsageTrackingOptions;
+
+  /**
+   * Custom axios-retry configuration (plain object type). Overrides the built-in retry policy.
    */
   axiosRetryConfig?: Record<string, any>;
 
@@ -70,6 +158,247 @@ export interface OpenAIClientOptions {
    * Custom Axios configuration options.
    */
   axiosConfig?: AxiosRequestConfig;
+
+  /**
+   * Trims the context sent with chat completions to a token budget.
+   */
+  contextTrimming?: ContextTrimmingOptions;
+
+  /**
+   * Replaces older context turns with a summary once the context passes a token threshold.
+   */
+  contextSummarization?: ContextSummarizationOptions;
+
+  /**
+   * Persists conversation histories. The client-level context uses the id 'default'.
+   */
+  contextStore?: ContextStore;
+}
+
+//
+// Retries
+//
+
+export interface RetryOptions {
+  /**
+   * Maximum number of retries per request. Defaults to 3.
+   */
+  maxRetries?: number;
+
+  /**
+   * Backoff before the first retry in milliseconds, doubled on each retry. Defaults to 500.
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound of the backoff in milliseconds. Defaults to 8000.
+   */
+  maxDelay?: number;
+
+  /**
+   * Upper bound of the total time spent waiting between retries of one request,
+   * including server-provided delays. Defaults to 60000.
+   */
+  maxTotalDelay?: number;
+}
+
+//
+// Middleware
+//
+
+// What middleware sees of a request; `data` and `headers` may be changed before it is sent
+export interface MiddlewareContext {
+  readonly method: string;
+  readonly endpoint: string;
+  readonly stream: boolean;
+  data: any;
+  headers: Record<string, string>;
+}
+
+export interface Middleware {
+  /**
+   * Runs before the request is sent and may change `context.data` or `context.headers`.
+   * Returning a value other than undefined skips the request and resolves the call with it;
+   * streaming requests must be answered with an async iterable or an array of chunks.
+   */
+  beforeRequest?: (context: MiddlewareContext) => unknown;
+
+  /**
+   * Runs with the parsed result of a non-streaming request. Returning a value other than
+   * undefined replaces the result.
+   */
+  afterResponse?: (context: MiddlewareContext, result: any) => unknown;
+
+  /**
+   * Runs when a request fails. Returning a value other than undefined resolves the call with
+   * it instead; throwing replaces the error.
+   */
+  onError?: (context: MiddlewareContext, error: OpenAIError) => unknown;
+
+  /**
+   * Runs for every chunk of a stream. Returning a value other than undefined replaces the chunk.
+   */
+  onStreamChunk?: (context: MiddlewareContext, chunk: any) => unknown;
+}
+
+//
+// Raw Responses
+//
+
+// Metadata of the HTTP response behind a call
+export interface APIResponseInfo {
+  status: number;
+  headers: Record<string, string>;
+  durationMs: number;
+  requestId?: string;
+}
+
+export interface WithResponse<T> {
+  data: T;
+  response: APIResponseInfo;
+}
+
+//
+// Rate Limits
+//
+
+export interface RateLimitOptions {
+  /**
+   * Requests allowed per minute. Requests beyond it are queued.
+   */
+  requestsPerMinute?: number;
+
+  /**
+   * Tokens allowed per minute, estimated from each request before it is sent.
+   */
+  tokensPerMinute?: number;
+}
+
+export interface RateLimitInfo {
+  limit?: number;
+  remaining?: number;
+  /**
+   * Time (epoch milliseconds) at which the limit is fully replenished.
+   */
+  resetAt?: number;
+}
+
+// Latest values of the x-ratelimit-* response headers
+export interface RateLimitState {
+  requests: RateLimitInfo;
+  tokens: RateLimitInfo;
+  updatedAt: number;
+}
+
+//
+// Usage Tracking
+//
+
+// Prices in USD per million tokens
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export interface UsageTrackingOptions {
+  /**
+   * Prices per model. A model is priced by its exact name, and a dated snapshot such as
+   * 'gpt-4o-2024-08-06' by the name without the date ('gpt-4o'). Usage of unpriced models
+   * costs 0.
+   */
+  prices?: Record<string, ModelPrice>;
+  /**
+   * Adds `stream_options: { include_usage: true }` to streamed requests that set no
+   * `stream_options`, so their usage is tracked. Streams then end with an extra chunk
+   * whose `choices` is empty, and some OpenAI-compatible servers reject the option.
+   * Defaults to false.
+   */
+  includeStreamUsage?: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /**
+   * Estimated cost in USD, from the configured prices.
+   */
+  cost: number;
+}
+
+// Usage aggregated since the tracker was created or last reset
+export interface UsageReport {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byEndpoint: Record<string, UsageTotals>;
+  byTag: Record<string, UsageTotals>;
+  /**
+   * Time (epoch milliseconds) at which aggregation started.
+   */
+  since: number;
+}
+
+//
+// Request Options
+//
+
+export interface RequestOptions {
+  /**
+   * Aborts the request, or the stream it returned, when the signal fires.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Extra headers sent with this request.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Request timeout in milliseconds, overriding the client timeout.
+   */
+  timeout?: number;
+
+  /**
+   * Maximum number of retries, overriding the client retry configuration.
+   */
+  maxRetries?: number;
+
+  /**
+   * Idempotency key sent with POST requests. One is generated per call when omitted,
+   * so retried writes are not applied twice.
+   */
+  idempotencyKey?: string;
+
+  /**
+   * Tag the usage of this request is aggregated under, when usage tracking is enabled.
+   */
+  usageTag?: string;
+}
+
+//
+// Pagination
+//
+
+// Parameters of cursor-paginated list endpoints
+export interface CursorPageOptions {
+  /**
+   * Cursor: the ID of the last item of the previous page.
+   */
+  after?: string;
+
+  /**
+   * Number of items per page.
+   */
+  limit?: number;
+}
+
+export interface CursorPage<T> {
+  object: string;
+  data: T[];
+  has_more: boolean;
+  first_id?: string | null;
+  last_id?: string | null;
 }
 
 //
@@ -77,8 +406,135 @@ export interface OpenAIClientOptions {
 //
 
 export interface ContextEntry {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: ChatRole;
+  content: ChatMessageContent | null;
+  name?: string;
+  tool_calls?: ChatCompletionMessageToolCall[];
+  tool_call_id?: string;
+  function_call?: FunctionCall;
+  refusal?: string | null;
+  audio?: Pick<ChatCompletionAudio, 'id'> | null;
+}
+
+/**
+ * Persistence backend for conversation histories, keyed by conversation id.
+ */
+export interface ContextStore {
+  load(conversationId: string): Promise<ContextEntry[]>;
+  save(conversationId: string, entries: ContextEntry[]): Promise<void>;
+  append(conversationId: string, entries: ContextEntry[]): Promise<void>;
+  clear(conversationId: string): Promise<void>;
+}
+
+export type ContextTrimmingStrategyName = 'drop-oldest' | 'sliding-window' | 'keep-first-and-last';
+
+export interface ContextTrimmingParams {
+  /**
+   * Model the request is sent to.
+   */
+  model: string;
+
+  /**
+   * Token budget for the prompt messages.
+   */
+  maxTokens?: number;
+
+  /**
+   * Maximum number of turns to keep.
+   */
+  maxTurns?: number;
+
+  /**
+   * Counts the prompt tokens of a list of messages for the request model.
+   */
+  countTokens: (messages: ChatMessage[]) => number;
+}
+
+export type ContextTrimmingStrategy = (
+  messages: ChatMessage[],
+  params: ContextTrimmingParams
+) => ChatMessage[];
+
+export interface ContextTrimmingOptions {
+  /**
+   * Built-in strategy name or a custom strategy (default 'drop-oldest').
+   */
+  strategy?: ContextTrimmingStrategyName | ContextTrimmingStrategy;
+
+  /**
+   * Token budget for the prompt messages (context plus request messages).
+   */
+  maxTokens?: number;
+
+  /**
+   * Maximum number of turns kept by the 'sliding-window' strategy.
+   */
+  maxTurns?: number;
+}
+
+export interface ContextSummarizationOptions {
+  /**
+   * Token count of the history above which older turns are summarized.
+   */
+  thresholdTokens: number;
+
+  /**
+   * Model used to write the summary (defaults to the request model).
+   */
+  model?: string;
+
+  /**
+   * System prompt used to request the summary.
+   */
+  prompt?: string;
+
+  /**
+   * Number of most recent turns kept verbatim (default 2).
+   */
+  keepRecentTurns?: number;
+}
+
+// Chat completion options a conversation applies to every turn
+export type ConversationDefaults = Partial<
+  Omit<CreateChatCompletionOptions, 'messages' | 'stream'>
+>;
+
+export interface ConversationOptions {
+  /**
+   * Conversation identifier (a random UUID by default).
+   */
+  id?: string;
+
+  /**
+   * System prompt sent ahead of the history on every request.
+   */
+  systemPrompt?: string;
+
+  /**
+   * Default chat completion options, e.g. model and temperature.
+   */
+  defaults?: ConversationDefaults;
+
+  /**
+   * Initial history entries. With a context store, they are only used if the store has no
+   * history for this conversation's id.
+   */
+  context?: ContextEntry[];
+
+  /**
+   * Trimming applied to this conversation's payloads, overriding the client's `contextTrimming`.
+   */
+  contextTrimming?: ContextTrimmingOptions;
+
+  /**
+   * Summarization applied to this conversation, overriding the client's `contextSummarization`.
+   */
+  contextSummarization?: ContextSummarizationOptions;
+
+  /**
+   * Store the history is read from and written to, overriding the client's `contextStore`.
+   */
+  contextStore?: ContextStore;
 }
 
 //
@@ -106,6 +562,12 @@ export type RetrieveModelResponse = Model;
 // Completions
 //
 
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
 export interface CompletionChoice {
   text: string;
   index: number;
@@ -119,11 +581,7 @@ export interface CompletionResponse {
   created: number;
   model: string;
   choices: CompletionChoice[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage: CompletionUsage;
 }
 
 // Parameters for createCompletion
@@ -144,6 +602,7 @@ export interface CreateCompletionOptions {
   best_of?: number;
   logit_bias?: Record<string, number>;
   user?: string;
+  stream_options?: StreamOptions;
 }
 
 // Streaming Completion Response
@@ -158,35 +617,205 @@ export interface CompletionStreamResponse {
     logprobs: any | null;
     finish_reason: string | null;
   }>;
+  /**
+   * Sent on the last chunk when `stream_options.include_usage` is set.
+   */
+  usage?: CompletionUsage | null;
+}
+
+// Completion rebuilt from a stream; usage is only present when the server sent it
+export type StreamedCompletionResponse = Omit<CompletionResponse, 'usage'> & {
+  usage?: CompletionUsage;
+};
+
+//
+// Chat Completions
+//
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool' | 'function';
+
+export interface ChatCompletionContentPartText {
+  type: 'text';
+  text: string;
+}
+
+export interface ChatCompletionContentPartImage {
+  type: 'image_url';
+  image_url: {
+    /**
+     * Image URL or base64 data URL.
+     */
+    url: string;
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+export interface ChatCompletionContentPartInputAudio {
+  type: 'input_audio';
+  input_audio: {
+    /**
+     * Base64-encoded audio data.
+     */
+    data: string;
+    format: 'wav' | 'mp3';
+  };
+}
+
+export type ChatCompletionContentPart =
+  | ChatCompletionContentPartText
+  | ChatCompletionContentPartImage
+  | ChatCompletionContentPartInputAudio;
+
+export type ChatMessageContent = string | ChatCompletionContentPart[];
+
+// Audio reply of a model asked for audio output; only its id is sent back in the history
+export interface ChatCompletionAudio {
+  id: string;
+  data?: string;
+  expires_at?: number;
+  transcript?: string;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: ChatMessageContent | null;
+  name?: string;
+  tool_calls?: ChatCompletionMessageToolCall[];
+  tool_call_id?: string;
+  function_call?: FunctionCall;
+  refusal?: string | null;
+  audio?: ChatCompletionAudio | null;
+}
+
+export interface ChatCompletionChoice {
+  index: number;
+  message?: ChatMessage;
+  delta?: ChatCompletionChunkDelta;
+  finish_reason: string | null;
+}
+
+export interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: ChatCompletionChoice[];
+  usage: CompletionUsage;
+  system_fingerprint?: string;
+}
+
+//
+// Tools / Function Calling
+//
+
+export interface FunctionDefinition {
+  name: string;
+  description?: string;
+  /**
+   * JSON Schema describing the function arguments.
+   */
+  parameters?: Record<string, any>;
+  strict?: boolean;
+}
+
+export interface ChatCompletionTool {
+  type: 'function';
+  function: FunctionDefinition;
+}
+
+export type ChatCompletionToolChoice =
+  | 'none'
+  | 'auto'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+export interface FunctionCall {
+  name: string;
+  /**
+   * JSON-encoded arguments, as generated by the model.
+   */
+  arguments: string;
+}
+
+export interface ChatCompletionMessageToolCall {
+  id: string;
+  type: 'function';
+  function: FunctionCall;
+}
+
+export type ToolHandler = (
+  args: any,
+  toolCall: ChatCompletionMessageToolCall
+) => unknown | Promise<unknown>;
+
+export interface RegisteredTool extends FunctionDefinition {
+  /**
+   * Local function executed when the model calls this tool.
+   * Non-string return values are JSON-encoded before being sent back.
+   */
+  handler: ToolHandler;
+}
+
+// Parameters for runTools
+export interface RunToolsOptions extends Omit<CreateChatCompletionOptions, 'stream'> {
+  /**
+   * Maximum number of model round-trips before giving up (default 10).
+   */
+  maxIterations?: number;
 }
 
 //
-// Chat Completions
+// Structured Outputs
 //
 
-export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+export type JSONSchema = Record<string, any>;
+
+export interface JSONSchemaResponseFormat {
+  name: string;
+  description?: string;
+  schema: JSONSchema;
+  strict?: boolean;
 }
 
-export interface ChatCompletionChoice {
-  index: number;
-  message?: ChatMessage;
-  delta?: Partial<ChatMessage>;
-  finish_reason: string | null;
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: JSONSchemaResponseFormat };
+
+export interface JSONSchemaIssue {
+  /**
+   * Location of the offending value, e.g. `$.items[0].name`.
+   */
+  path: string;
+  message: string;
 }
 
-export interface ChatCompletionResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: ChatCompletionChoice[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+// Parameters for createStructuredChatCompletion
+export interface CreateStructuredChatCompletionOptions
+  extends Omit<CreateChatCompletionOptions, 'stream' | 'response_format'> {
+  /**
+   * JSON Schema the reply must conform to. When omitted, `json_object` mode is used.
+   */
+  schema?: JSONSchema;
+
+  /**
+   * Name sent with the schema (default 'response').
+   */
+  schemaName?: string;
+
+  /**
+   * Enables the API's strict schema adherence.
+   */
+  strict?: boolean;
+
+  /**
+   * Number of times the model is asked to fix a non-conforming reply (default 0).
+   */
+  maxRepairAttempts?: number;
+}
+
+export interface StructuredChatCompletionResponse<T> extends ChatCompletionResponse {
+  parsed: T;
 }
 
 // Parameters for createChatCompletion
@@ -203,6 +832,39 @@ export interface CreateChatCompletionOptions {
   frequency_penalty?: number;
   logit_bias?: Record<string, number>;
   user?: string;
+  tools?: ChatCompletionTool[];
+  tool_choice?: ChatCompletionToolChoice;
+  parallel_tool_calls?: boolean;
+  /**
+   * @deprecated Use `tools` instead.
+   */
+  functions?: FunctionDefinition[];
+  /**
+   * @deprecated Use `tool_choice` instead.
+   */
+  function_call?: 'none' | 'auto' | { name: string };
+  response_format?: ResponseFormat;
+  seed?: number;
+  stream_options?: StreamOptions;
+}
+
+// Streaming tool call fragment; `arguments` arrives as partial JSON across chunks
+export interface ChatCompletionMessageToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+export interface ChatCompletionChunkDelta {
+  role?: ChatRole;
+  content?: string | null;
+  refusal?: string | null;
+  tool_calls?: ChatCompletionMessageToolCallDelta[];
+  function_call?: Partial<FunctionCall>;
 }
 
 // Streaming Chat Completion Response
@@ -212,10 +874,32 @@ export interface ChatCompletionStreamResponse {
   created: number;
   model: string;
   choices: Array<{
-    delta: Partial<ChatMessage>;
+    delta: ChatCompletionChunkDelta;
     index: number;
     finish_reason: string | null;
   }>;
+  system_fingerprint?: string;
+  /**
+   * Sent on the last chunk when `stream_options.include_usage` is set.
+   */
+  usage?: CompletionUsage | null;
+}
+
+// Chat completion rebuilt from a stream; usage is only present when the server sent it
+export type StreamedChatCompletionResponse = Omit<ChatCompletionResponse, 'usage'> & {
+  usage?: CompletionUsage;
+};
+
+export interface StreamOptions {
+  include_usage?: boolean;
+}
+
+// A single Server-Sent Event; `event` and `id` are null when the server did not set them
+export interface ServerSentEvent {
+  event: string | null;
+  data: string;
+  id: string | null;
+  retry?: number;
 }
 
 //
@@ -280,11 +964,7 @@ export interface EditResponse {
   object: string;
   created: number;
   choices: EditChoice[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage: CompletionUsage;
 }
 
 // Parameters for createEdit
@@ -321,8 +1001,8 @@ export interface CreateImageOptions {
 }
 
 export interface CreateImageEditOptions {
-  image: string; // File path
-  mask?: string; // File path
+  image: Uploadable;
+  mask?: Uploadable;
   prompt: string;
   n?: number;
   size?: '256x256' | '512x512' | '1024x1024';
@@ -331,7 +1011,7 @@ export interface CreateImageEditOptions {
 }
 
 export interface CreateImageVariationOptions {
-  image: string; // File path
+  image: Uploadable;
   n?: number;
   size?: '256x256' | '512x512' | '1024x1024';
   response_format?: 'url' | 'b64_json';
@@ -372,10 +1052,423 @@ export interface ListFilesResponse {
 // File Content
 export type FileContent = Buffer;
 
+// Parameters for listFiles
+export interface ListFilesOptions extends CursorPageOptions {
+  purpose?: string;
+  order?: 'asc' | 'desc';
+}
+
+// Anything with the `arrayBuffer` method of a Blob or File
+export interface BlobLike {
+  readonly size: number;
+  readonly type: string;
+  readonly name?: string;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+// File content held in memory or read from a stream
+export type FileData = Buffer | Uint8Array | ArrayBuffer | Readable | BlobLike;
+
+// File content with the filename and MIME type sent in the multipart request
+export interface NamedFile {
+  data: Buffer | Readable;
+  filename: string;
+  contentType: string;
+  /**
+   * The size in bytes, unknown for streams.
+   */
+  size?: number;
+}
+
+// A file path, file content, or file content named with toFile
+export type Uploadable = string | FileData | NamedFile;
+
+// Parameters for toFile
+export interface ToFileOptions {
+  contentType?: string;
+}
+
 // Parameters for uploadFile
 export interface UploadFileOptions {
+  file?: Uploadable;
+  /**
+   * @deprecated Use `file`, which also accepts a path.
+   */
+  filePath?: string;
+  purpose: string;
+  /**
+   * Called as the file is sent.
+   */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UploadProgress {
+  bytesSent: number;
+  /**
+   * The size of the file, unknown when uploading a stream.
+   */
+  totalBytes?: number;
+}
+
+//
+// Uploads
+//
+
+export type UploadStatus = 'pending' | 'completed' | 'cancelled' | 'expired';
+
+export interface Upload {
+  id: string;
+  object: string;
+  bytes: number;
+  created_at: number;
+  filename: string;
+  purpose: string;
+  status: UploadStatus;
+  expires_at: number;
+  /**
+   * The file created from the parts, once the upload is completed.
+   */
+  file?: FileObject | null;
+}
+
+export interface UploadPart {
+  id: string;
+  object: string;
+  created_at: number;
+  upload_id: string;
+}
+
+// Parameters for createUpload
+export interface CreateUploadOptions {
+  filename: string;
+  purpose: string;
+  bytes: number;
+  mime_type: string;
+}
+
+// Parameters for completeUpload
+export interface CompleteUploadOptions {
+  /**
+   * Part IDs in the order the parts make up the file.
+   */
+  part_ids: string[];
+  /**
+   * MD5 checksum of the whole file, verified by the server.
+   */
+  md5?: string;
+}
+
+// Parameters for uploadLargeFile
+export interface UploadLargeFileOptions {
   filePath: string;
   purpose: string;
+
+  /**
+   * MIME type of the file. Guessed from the file extension when omitted.
+   */
+  mimeType?: string;
+
+  /**
+   * Size of each part in bytes. Defaults to 64 MiB, the largest part the API accepts.
+   */
+  partSize?: number;
+
+  /**
+   * Number of parts sent at the same time. Defaults to 4.
+   */
+  concurrency?: number;
+
+  /**
+   * Retries of a failed part. Defaults to 3.
+   */
+  maxPartRetries?: number;
+
+  /**
+   * Sends the MD5 checksum of the file for the server to verify. Defaults to true.
+   */
+  checksum?: boolean;
+
+  /**
+   * Continues an upload that failed, from the `uploadId` and `partIds` of its `UploadError`.
+   * `partSize` must be the same as in the failed call.
+   */
+  resume?: { uploadId: string; partIds: Array<string | undefined> };
+
+  /**
+   * Called as parts are sent.
+   */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+//
+// Batches
+//
+
+// Request and response bodies of the endpoints a batch can target
+export interface BatchEndpointTypes {
+  '/v1/chat/completions': {
+    request: CreateChatCompletionOptions;
+    response: ChatCompletionResponse;
+  };
+  '/v1/embeddings': { request: CreateEmbeddingOptions; response: EmbeddingResponse };
+  '/v1/completions': { request: CreateCompletionOptions; response: CompletionResponse };
+}
+
+export type BatchEndpoint = keyof BatchEndpointTypes;
+
+export type BatchStatus =
+  | 'validating'
+  | 'failed'
+  | 'in_progress'
+  | 'finalizing'
+  | 'completed'
+  | 'expired'
+  | 'cancelling'
+  | 'cancelled';
+
+export interface BatchRequestCounts {
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+export interface BatchInputError {
+  code?: string;
+  message?: string;
+  param?: string | null;
+  line?: number | null;
+}
+
+export interface Batch {
+  id: string;
+  object: string;
+  endpoint: string;
+  errors?: { object: string; data: BatchInputError[] } | null;
+  input_file_id: string;
+  completion_window: string;
+  status: BatchStatus;
+  output_file_id?: string | null;
+  error_file_id?: string | null;
+  created_at: number;
+  in_progress_at?: number | null;
+  expires_at?: number | null;
+  finalizing_at?: number | null;
+  completed_at?: number | null;
+  failed_at?: number | null;
+  expired_at?: number | null;
+  cancelling_at?: number | null;
+  cancelled_at?: number | null;
+  request_counts?: BatchRequestCounts;
+  metadata?: Record<string, string> | null;
+}
+
+// Parameters for createBatch
+export interface CreateBatchOptions {
+  input_file_id: string;
+  endpoint: BatchEndpoint;
+  completion_window: '24h';
+  metadata?: Record<string, string>;
+}
+
+// Parameters for listBatches
+export type ListBatchesOptions = CursorPageOptions;
+
+// A request of a batch, identified by a custom id that is unique within the batch
+export interface BatchRequest<T> {
+  custom_id: string;
+  body: T;
+}
+
+// A line of a batch output or error file
+export interface BatchOutputLine {
+  id: string;
+  custom_id: string;
+  response: { status_code: number; request_id: string; body: any } | null;
+  error: { code: string; message: string } | null;
+}
+
+// Parameters for runBatch
+export interface RunBatchOptions {
+  /**
+   * Time between status checks, in milliseconds. Defaults to 30 seconds.
+   */
+  pollInterval?: number;
+
+  /**
+   * Maximum time to wait for the batch, in milliseconds. The batch keeps running
+   * when it is exceeded. Defaults to no limit.
+   */
+  maxWait?: number;
+
+  /**
+   * Metadata attached to the batch.
+   */
+  metadata?: Record<string, string>;
+
+  /**
+   * Called with the batch after every status check.
+   */
+  onProgress?: (batch: Batch) => void;
+}
+
+export interface BatchResult<T> {
+  custom_id: string;
+  status_code?: number;
+  request_id?: string;
+  /**
+   * The response body, when the request succeeded.
+   */
+  body?: T;
+  error?: { code?: string; message: string };
+}
+
+export interface RunBatchResponse<T> {
+  batch: Batch;
+  /**
+   * Results keyed by `custom_id`. Requests a cancelled or expired batch did not run are missing.
+   */
+  results: Record<string, BatchResult<T>>;
+}
+
+//
+// Fine-Tuning Jobs
+//
+
+export type FineTuningJobStatus =
+  | 'validating_files'
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+// 'auto' lets the API pick a value from the dataset size
+export interface FineTuningHyperparameters {
+  batch_size?: number | 'auto';
+  learning_rate_multiplier?: number | 'auto';
+  n_epochs?: number | 'auto';
+}
+
+export interface DpoHyperparameters extends FineTuningHyperparameters {
+  beta?: number | 'auto';
+}
+
+export interface FineTuningMethod {
+  type: 'supervised' | 'dpo';
+  supervised?: { hyperparameters?: FineTuningHyperparameters };
+  dpo?: { hyperparameters?: DpoHyperparameters };
+}
+
+export interface WandbIntegration {
+  type: 'wandb';
+  wandb: {
+    project: string;
+    name?: string | null;
+    entity?: string | null;
+    tags?: string[];
+  };
+}
+
+export interface FineTuningJobError {
+  code: string;
+  message: string;
+  param?: string | null;
+}
+
+export interface FineTuningJob {
+  id: string;
+  object: string;
+  created_at: number;
+  finished_at: number | null;
+  model: string;
+  fine_tuned_model: string | null;
+  organization_id: string;
+  status: FineTuningJobStatus;
+  hyperparameters: FineTuningHyperparameters;
+  training_file: string;
+  validation_file: string | null;
+  result_files: string[];
+  trained_tokens: number | null;
+  error: FineTuningJobError | null;
+  estimated_finish?: number | null;
+  integrations?: WandbIntegration[] | null;
+  seed?: number;
+  method?: FineTuningMethod;
+  metadata?: Record<string, string> | null;
+}
+
+// Parameters for createFineTuningJob
+export interface CreateFineTuningJobOptions {
+  model: string;
+  training_file: string;
+  validation_file?: string;
+  /**
+   * @deprecated Use `method` instead.
+   */
+  hyperparameters?: FineTuningHyperparameters;
+  method?: FineTuningMethod;
+  integrations?: WandbIntegration[];
+  suffix?: string;
+  seed?: number;
+  metadata?: Record<string, string>;
+}
+
+// Parameters for listFineTuningJobs
+export interface ListFineTuningJobsOptions extends CursorPageOptions {
+  metadata?: Record<string, string>;
+}
+
+export interface FineTuningJobEvent {
+  id: string;
+  object: string;
+  created_at: number;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+  type?: 'message' | 'metrics';
+  data?: Record<string, any>;
+}
+
+export interface FineTuningJobCheckpoint {
+  id: string;
+  object: string;
+  created_at: number;
+  fine_tuned_model_checkpoint: string;
+  fine_tuning_job_id: string;
+  step_number: number;
+  metrics: {
+    step?: number;
+    train_loss?: number;
+    train_mean_token_accuracy?: number;
+    valid_loss?: number;
+    valid_mean_token_accuracy?: number;
+    full_valid_loss?: number;
+    full_valid_mean_token_accuracy?: number;
+  };
+}
+
+// Parameters for waitForFineTuningJob
+export interface WaitForFineTuningJobOptions {
+  /**
+   * Time between status checks, in milliseconds. Defaults to 30 seconds.
+   */
+  pollInterval?: number;
+
+  /**
+   * Maximum time to wait for the job, in milliseconds. The job keeps running
+   * when it is exceeded. Defaults to no limit.
+   */
+  maxWait?: number;
+
+  /**
+   * Called with every new event of the job, oldest first.
+   */
+  onEvent?: (event: FineTuningJobEvent) => void;
+
+  /**
+   * Called with the job after every status check.
+   */
+  onProgress?: (job: FineTuningJob) => void;
 }
 
 //
@@ -427,8 +1520,27 @@ export interface CreateFineTuneOptions {
   suffix?: string;
 }
 
+//
+// Errors
+//
+
+// Body of an API error response
 export interface ErrorResponse {
-  error?: {
-    message?: string;
-  };
+  error?: ErrorObject;
+}
+
+export interface ErrorObject {
+  message?: string;
+  type?: string;
+  param?: string | null;
+  code?: string | null;
+}
+
+// Request and error details attached to every OpenAIError raised for an API call
+export interface OpenAIErrorDetails {
+  requestId?: string;
+  code?: string | null;
+  type?: string;
+  param?: string | null;
+  headers?: Record<string, string>;
 }
@@ -0,0 +1,118 @@
+// src/uploads.ts
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+
+// The largest part the Uploads API accepts
+export const MAX_PART_SIZE = 64 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.jsonl': 'application/jsonl',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.webm': 'audio/webm',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.mp4': 'video/mp4',
+};
+
+// MIME types that browsers and recorders use for the same formats
+const MIME_TYPE_ALIASES: Record<string, string> = {
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/x-m4a': 'audio/mp4',
+  'video/webm': 'audio/webm',
+  'audio/x-flac': 'audio/flac',
+};
+
+// Byte range of a part; `end` is inclusive, as in fs.createReadStream
+export interface PartRange {
+  index: number;
+  start: number;
+  end: number;
+  size: number;
+}
+
+/**
+ * Guesses the MIME type of a file from its extension.
+ * @param {string} filePath - The file path or name.
+ * @returns {string} The MIME type, or `application/octet-stream` for unknown extensions.
+ */
+export function guessMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Guesses the file extension of a MIME type, ignoring parameters such as `codecs`.
+ * @param {string} mimeType - The MIME type, such as `audio/webm;codecs=opus`.
+ * @returns {string | undefined} The extension with its dot, or undefined for unknown types.
+ */
+export function guessExtension(mimeType: string): string | undefined {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  const canonical = MIME_TYPE_ALIASES[type] || type;
+  return Object.keys(MIME_TYPES).find((extension) => MIME_TYPES[extension] === canonical);
+}
+
+/**
+ * Splits a file into consecutive parts of at most `partSize` bytes.
+ * @param {number} totalBytes - The size of the file.
+ * @param {number} partSize - The size of each part.
+ * @returns {PartRange[]}
+ * @throws {Error} If the part size is not between 1 byte and 64 MiB.
+ */
+export function planParts(totalBytes: number, partSize: number = MAX_PART_SIZE): PartRange[] {
+  if (!(partSize > 0 && partSize <= MAX_PART_SIZE)) {
+    throw new Error(`Part size must be between 1 and ${MAX_PART_SIZE} bytes`);
+  }
+
+  const parts: PartRange[] = [];
+  for (let start = 0; start < totalBytes; start += partSize) {
+    const end = Math.min(start + partSize, totalBytes) - 1;
+    parts.push({ index: parts.length, start, end, size: end - start + 1 });
+  }
+  return parts;
+}
+
+/**
+ * Computes the MD5 checksum of a file without loading it into memory.
+ * @param {string} filePath - The file path.
+ * @returns {Promise<string>} The checksum as a hex string.
+ */
+export async function md5File(filePath: string): Promise<string> {
+  const hash = createHash('md5');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Passes a stream through unchanged, reporting the size of every chunk read from it.
+ * @param {Readable} source - The stream.
+ * @param {(bytes: number) => void} onBytes - Called with the size of each chunk.
+ * @returns {Readable}
+ */
+export function countBytes(source: Readable, onBytes: (bytes: number) => void): Readable {
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      onBytes(chunk.length);
+      callback(null, chunk);
+    },
+  });
+  source.on('error', (error) => counter.destroy(error));
+  return source.pipe(counter);
+}
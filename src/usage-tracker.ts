@@ -0,0 +1,145 @@
+// src/usage-tracker.ts
+
+import { ModelPrice, UsageReport, UsageTotals, UsageTrackingOptions } from './types';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+// Dated snapshots such as gpt-4o-2024-08-06 are priced like the model they belong to
+const SNAPSHOT_SUFFIX = /-\d{4}-\d{2}-\d{2}$/;
+
+// Token counts of a single response
+export interface UsageRecord {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+});
+
+const addUsage = (totals: UsageTotals, usage: UsageRecord, cost: number): void => {
+  totals.requests += 1;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.cost += cost;
+};
+
+const copyGroups = (groups: Record<string, UsageTotals>): Record<string, UsageTotals> => {
+  const copy: Record<string, UsageTotals> = {};
+  for (const [key, totals] of Object.entries(groups)) {
+    copy[key] = { ...totals };
+  }
+  return copy;
+};
+
+/**
+ * Reads the `usage` object of a response. Chat and completion usage
+ * (`prompt_tokens`/`completion_tokens`) and `input_tokens`/`output_tokens` are both accepted.
+ * @param {any} usage - The `usage` field of a response or stream chunk.
+ * @returns {UsageRecord | undefined} The counts, or undefined if the value is not a usage object.
+ */
+export function readUsage(usage: any): UsageRecord | undefined {
+  if (!usage || typeof usage !== 'object') {
+    return undefined;
+  }
+
+  const promptTokens = usage.prompt_tokens ?? usage.input_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? usage.output_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Aggregates token usage and estimated cost per model, endpoint and tag.
+ * @example
+ * const tracker = new UsageTracker({ prices: { 'gpt-4o': { prompt: 2.5, completion: 10 } } });
+ * tracker.record(response.usage, { model: response.model, endpoint: '/chat/completions' });
+ * console.log(tracker.snapshot().total.cost);
+ */
+export class UsageTracker {
+  private prices: Map<string, ModelPrice>;
+  private report: UsageReport;
+
+  constructor(options: UsageTrackingOptions = {}) {
+    this.prices = new Map(Object.entries(options.prices || {}));
+    this.report = this.emptyReport();
+  }
+
+  /**
+   * Adds the usage of one response.
+   * @param {any} usage - The `usage` field of the response; ignored if missing.
+   * @param {{ model?: string; endpoint: string; tag?: string }} source - Where the usage came from.
+   */
+  record(usage: any, source: { model?: string; endpoint: string; tag?: string }): void {
+    const counts = readUsage(usage);
+    if (!counts) {
+      return;
+    }
+
+    const model = source.model || 'unknown';
+    const cost = this.estimateCost(model, counts);
+    const { total, byModel, byEndpoint, byTag } = this.report;
+    addUsage(total, counts, cost);
+    addUsage((byModel[model] ??= emptyTotals()), counts, cost);
+    addUsage((byEndpoint[source.endpoint] ??= emptyTotals()), counts, cost);
+    if (source.tag) {
+      addUsage((byTag[source.tag] ??= emptyTotals()), counts, cost);
+    }
+  }
+
+  /**
+   * Estimates the cost of the given token counts for a model, priced by its exact name or,
+   * for a dated snapshot, by the name without the date.
+   * @param {string} model - The model name.
+   * @param {UsageRecord} usage - The token counts.
+   * @returns {number} The cost in USD, or 0 if the model has no price.
+   */
+  estimateCost(model: string, usage: UsageRecord): number {
+    const price = this.prices.get(model) ?? this.prices.get(model.replace(SNAPSHOT_SUFFIX, ''));
+    if (!price) {
+      return 0;
+    }
+    return (
+      (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) /
+      TOKENS_PER_PRICE_UNIT
+    );
+  }
+
+  /**
+   * Returns a copy of the usage aggregated so far.
+   * @returns {UsageReport}
+   */
+  snapshot(): UsageReport {
+    const { total, byModel, byEndpoint, byTag, since } = this.report;
+    return {
+      total: { ...total },
+      byModel: copyGroups(byModel),
+      byEndpoint: copyGroups(byEndpoint),
+      byTag: copyGroups(byTag),
+      since,
+    };
+  }
+
+  /**
+   * Starts a new aggregation period.
+   * @returns {UsageReport} The usage of the period that just ended.
+   */
+  reset(): UsageReport {
+    const report = this.snapshot();
+    this.report = this.emptyReport();
+    return report;
+  }
+
+  private emptyReport(): UsageReport {
+    return { total: emptyTotals(), byModel: {}, byEndpoint: {}, byTag: {}, since: Date.now() };
+  }
+}
@@ -0,0 +1,226 @@
+// tests/batches.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { BatchError } from '../src/errors';
+import { buildBatchInput, collectBatchResults, parseJsonLines } from '../src/batches';
+import { Batch } from '../src/types';
+
+const batch = (overrides: Partial<Batch> = {}): Batch => ({
+  id: 'batch_1',
+  object: 'batch',
+  endpoint: '/v1/chat/completions',
+  input_file_id: 'file-in',
+  completion_window: '24h',
+  status: 'validating',
+  created_at: 1234567890,
+  ...overrides,
+});
+
+const chatRequest = (content: string) => ({
+  model: 'gpt-4o-mini',
+  messages: [{ role: 'user' as const, content }],
+});
+
+describe('Batches', () => {
+  const createClient = () =>
+    new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should build the JSONL input and reject duplicate custom ids', () => {
+    const input = buildBatchInput('/v1/embeddings', [
+      { custom_id: 'a', body: { model: 'text-embedding-3-small', input: 'Hello' } },
+      { custom_id: 'b', body: { model: 'text-embedding-3-small', input: 'World' } },
+    ]);
+
+    expect(parseJsonLines(input)).toEqual([
+      {
+        custom_id: 'a',
+        method: 'POST',
+        url: '/v1/embeddings',
+        body: { model: 'text-embedding-3-small', input: 'Hello' },
+      },
+      {
+        custom_id: 'b',
+        method: 'POST',
+        url: '/v1/embeddings',
+        body: { model: 'text-embedding-3-small', input: 'World' },
+      },
+    ]);
+    expect(() => buildBatchInput('/v1/embeddings', [])).toThrow('at least one request');
+    expect(() =>
+      buildBatchInput('/v1/embeddings', [
+        { custom_id: 'a', body: {} },
+        { custom_id: 'a', body: {} },
+      ] as any)
+    ).toThrow('Duplicate custom_id in batch: a');
+  });
+
+  test('should map output and error lines to results', () => {
+    const results = collectBatchResults([
+      {
+        id: 'r1',
+        custom_id: 'ok',
+        response: { status_code: 200, request_id: 'req_1', body: { id: 'chatcmpl-1' } },
+        error: null,
+      },
+      {
+        id: 'r2',
+        custom_id: 'bad',
+        response: {
+          status_code: 400,
+          request_id: 'req_2',
+          body: { error: { code: 'invalid_value', message: 'Invalid model' } },
+        },
+        error: null,
+      },
+      {
+        id: 'r3',
+        custom_id: 'expired',
+        response: null,
+        error: { code: 'batch_expired', message: 'Request expired' },
+      },
+    ]);
+
+    expect(results).toEqual({
+      ok: { custom_id: 'ok', status_code: 200, request_id: 'req_1', body: { id: 'chatcmpl-1' } },
+      bad: {
+        custom_id: 'bad',
+        status_code: 400,
+        request_id: 'req_2',
+        error: { code: 'invalid_value', message: 'Invalid model' },
+      },
+      expired: {
+        custom_id: 'expired',
+        error: { code: 'batch_expired', message: 'Request expired' },
+      },
+    });
+  });
+
+  test('should create, retrieve, list and cancel batches', async () => {
+    const client = createClient();
+    const options = {
+      input_file_id: 'file-in',
+      endpoint: '/v1/chat/completions' as const,
+      completion_window: '24h' as const,
+    };
+
+    nock('https://api.openai.com')
+      .post('/v1/batches', options)
+      .reply(200, batch())
+      .get('/v1/batches/batch_1')
+      .reply(200, batch({ status: 'in_progress' }))
+      .get('/v1/batches')
+      .query({ limit: 2, after: 'batch_0' })
+      .reply(200, { object: 'list', data: [batch()], has_more: false })
+      .post('/v1/batches/batch_1/cancel')
+      .reply(200, batch({ status: 'cancelling' }));
+
+    await expect(client.createBatch(options)).resolves.toMatchObject({ id: 'batch_1' });
+    await expect(client.retrieveBatch('batch_1')).resolves.toMatchObject({
+      status: 'in_progress',
+    });
+    await expect(client.listBatches({ limit: 2, after: 'batch_0' })).resolves.toMatchObject({
+      data: [{ id: 'batch_1' }],
+    });
+    await expect(client.cancelBatch('batch_1')).resolves.toMatchObject({ status: 'cancelling' });
+  });
+
+  test('should upload, poll and collect the results of a batch', async () => {
+    const client = createClient();
+    const progress: string[] = [];
+    const output = [
+      {
+        id: 'r1',
+        custom_id: 'first',
+        response: { status_code: 200, request_id: 'req_1', body: { id: 'chatcmpl-1' } },
+        error: null,
+      },
+    ];
+    const errors = [
+      {
+        id: 'r2',
+        custom_id: 'second',
+        response: {
+          status_code: 429,
+          request_id: 'req_2',
+          body: { error: { message: 'Rate limited' } },
+        },
+        error: null,
+      },
+    ];
+
+    nock('https://api.openai.com')
+      .post('/v1/files', (body) => body.includes('"custom_id":"second"') && body.includes('batch'))
+      .reply(200, { id: 'file-in', object: 'file', purpose: 'batch' })
+      .post('/v1/batches', {
+        input_file_id: 'file-in',
+        endpoint: '/v1/chat/completions',
+        completion_window: '24h',
+        metadata: { job: 'nightly' },
+      })
+      .reply(200, batch())
+      .get('/v1/batches/batch_1')
+      .reply(200, batch({ status: 'in_progress' }))
+      .get('/v1/batches/batch_1')
+      .reply(
+        200,
+        batch({ status: 'completed', output_file_id: 'file-out', error_file_id: 'file-err' })
+      )
+      .get('/v1/files/file-out/content')
+      .reply(200, output.map((line) => JSON.stringify(line)).join('\n') + '\n')
+      .get('/v1/files/file-err/content')
+      .reply(200, errors.map((line) => JSON.stringify(line)).join('\n'));
+
+    const { batch: finished, results } = await client.runBatch(
+      '/v1/chat/completions',
+      [
+        { custom_id: 'first', body: chatRequest('Hello') },
+        { custom_id: 'second', body: chatRequest('World') },
+      ],
+      {
+        pollInterval: 10,
+        metadata: { job: 'nightly' },
+        onProgress: (current) => progress.push(current.status),
+      }
+    );
+
+    expect(finished.status).toBe('completed');
+    expect(progress).toEqual(['validating', 'in_progress', 'completed']);
+    expect(results.first.body).toEqual({ id: 'chatcmpl-1' });
+    expect(results.second.error).toEqual({ code: undefined, message: 'Rate limited' });
+  });
+
+  test('should throw a BatchError when a batch fails or takes too long', async () => {
+    const client = createClient();
+    const failed = batch({
+      status: 'failed',
+      errors: { object: 'list', data: [{ code: 'invalid_json', message: 'Line 1 is invalid' }] },
+    });
+
+    nock('https://api.openai.com')
+      .post('/v1/files')
+      .times(2)
+      .reply(200, { id: 'file-in', object: 'file', purpose: 'batch' })
+      .post('/v1/batches')
+      .reply(200, failed)
+      .post('/v1/batches')
+      .reply(200, batch({ status: 'in_progress' }));
+
+    const requests = [{ custom_id: 'only', body: chatRequest('Hello') }];
+    await expect(client.runBatch('/v1/chat/completions', requests)).rejects.toThrow(
+      new BatchError('Batch batch_1 failed: Line 1 is invalid', failed)
+    );
+    await expect(
+      client.runBatch('/v1/chat/completions', requests, { pollInterval: 1000, maxWait: 500 })
+    ).rejects.toThrow('Batch batch_1 did not finish within 500ms');
+  });
+});
@@ -0,0 +1,104 @@
+// tests/chat-completion-accumulator.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { ChatCompletionAccumulator } from '../src/chat-completion-accumulator';
+import { ChatCompletionStreamResponse } from '../src/types';
+
+const chunk = (
+  delta: ChatCompletionStreamResponse['choices'][0]['delta'],
+  finishReason: string | null = null
+): ChatCompletionStreamResponse => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 1234567890,
+  model: 'gpt-4o',
+  choices: [{ index: 0, delta, finish_reason: finishReason }],
+});
+
+describe('ChatCompletionAccumulator', () => {
+  const chunks: ChatCompletionStreamResponse[] = [
+    chunk({ role: 'assistant', content: null }),
+    chunk({
+      tool_calls: [
+        {
+          index: 0,
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'get_weather', arguments: '' },
+        },
+      ],
+    }),
+    chunk({ tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] }),
+    chunk({
+      tool_calls: [
+        {
+          index: 1,
+          id: 'call_2',
+          type: 'function',
+          function: { name: 'get_time', arguments: '{}' },
+        },
+      ],
+    }),
+    chunk({ tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] }),
+    chunk({}, 'tool_calls'),
+  ];
+
+  test('should reassemble tool calls from deltas', () => {
+    const accumulator = new ChatCompletionAccumulator();
+    chunks.forEach((c) => accumulator.add(c));
+
+    expect(accumulator.getToolCalls()).toEqual([
+      {
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+      },
+      { id: 'call_2', type: 'function', function: { name: 'get_time', arguments: '{}' } },
+    ]);
+    expect(accumulator.getMessage().content).toBeNull();
+    expect(accumulator.getFinishReason()).toBe('tool_calls');
+  });
+
+  test('should concatenate content deltas into the final message', () => {
+    const accumulator = new ChatCompletionAccumulator();
+    accumulator.add(chunk({ role: 'assistant', content: '' }));
+    accumulator.add(chunk({ content: 'Hello' }));
+    accumulator.add(chunk({ content: ', world!' }, 'stop'));
+
+    expect(accumulator.getMessage()).toEqual({ role: 'assistant', content: 'Hello, world!' });
+  });
+
+  test('should concatenate refusal deltas into the final message', () => {
+    const accumulator = new ChatCompletionAccumulator();
+    accumulator.add(chunk({ role: 'assistant', content: null, refusal: '' }));
+    accumulator.add(chunk({ refusal: 'I cannot ' }));
+    accumulator.add(chunk({ refusal: 'help with that.' }, 'stop'));
+
+    expect(accumulator.getMessage()).toEqual({
+      role: 'assistant',
+      content: null,
+      refusal: 'I cannot help with that.',
+    });
+    expect(accumulator.toResponse().choices[0].message?.refusal).toBe('I cannot help with that.');
+  });
+
+  test('should accumulate a stream returned by createChatCompletion', async () => {
+    const client = new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+    const body = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(200, body, {
+      'Content-Type': 'text/event-stream',
+    });
+
+    const stream = (await client.createChatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Weather and time in Paris?' }],
+      stream: true,
+    })) as AsyncIterable<ChatCompletionStreamResponse>;
+
+    const accumulator = await ChatCompletionAccumulator.fromStream(stream);
+    expect(accumulator.getMessage().tool_calls).toHaveLength(2);
+    expect(accumulator.getToolCalls()[0].function.arguments).toBe('{"city":"Paris"}');
+  });
+});
@@ -0,0 +1,99 @@
+// tests/content-parts.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import nock from 'nock';
+import {
+  audioPartFromFile,
+  contentToText,
+  imagePartFromFile,
+  imageUrlPart,
+  textPart,
+} from '../src/content-parts';
+import { countMessageTokens } from '../src/token-counter';
+
+describe('Content parts', () => {
+  const client = new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+  let directory: string;
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-parts-'));
+    fs.writeFileSync(path.join(directory, 'pixel.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    fs.writeFileSync(path.join(directory, 'question.wav'), Buffer.from('RIFF'));
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should build an image part from a local file as a data URL', async () => {
+    const part = await imagePartFromFile(path.join(directory, 'pixel.png'), 'low');
+    expect(part).toEqual({
+      type: 'image_url',
+      image_url: { url: 'data:image/png;base64,iVBORw==', detail: 'low' },
+    });
+  });
+
+  test('should build an audio part from a local file', async () => {
+    const part = await audioPartFromFile(path.join(directory, 'question.wav'));
+    expect(part).toEqual({ type: 'input_audio', input_audio: { data: 'UklGRg==', format: 'wav' } });
+  });
+
+  test('should reject unsupported file types', async () => {
+    await expect(imagePartFromFile('notes.txt')).rejects.toThrow('Unsupported image type');
+  });
+
+  test('should accept content parts in the context and reject malformed ones', () => {
+    client.clearContext();
+    const entry = {
+      role: 'user' as const,
+      content: [textPart('What is this?'), imageUrlPart('https://example.com/cat.png')],
+    };
+    client.addToContext(entry);
+    expect(client.getContext()).toEqual([entry]);
+
+    expect(() =>
+      client.addToContext({ role: 'user', content: [{ type: 'image_url' } as any] })
+    ).toThrow('Context entry must be an object');
+    client.clearContext();
+  });
+
+  test('should send content parts with a conversation turn', async () => {
+    const conversation = client.createConversation({ defaults: { model: 'gpt-4o' } });
+    const content = [textPart('Describe this image.'), imageUrlPart('https://example.com/cat.png')];
+
+    let requestPayload: any;
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        requestPayload = body;
+        return true;
+      })
+      .reply(200, {
+        id: 'chat-completion-id',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4o',
+        choices: [
+          { index: 0, message: { role: 'assistant', content: 'A cat.' }, finish_reason: 'stop' },
+        ],
+        usage: { prompt_tokens: 100, completion_tokens: 2, total_tokens: 102 },
+      });
+
+    await conversation.send(content);
+    expect(requestPayload.messages).toEqual([{ role: 'user', content }]);
+  });
+
+  test('should count text parts and estimate images', () => {
+    const tokens = countMessageTokens(
+      [{ role: 'user', content: [textPart('hello world'), imageUrlPart('x', 'low')] }],
+      'gpt-4o'
+    );
+    expect(tokens).toBe(9 + 85);
+    expect(contentToText([textPart('Look:'), imageUrlPart('x')])).toBe('Look: [image]');
+  });
+});
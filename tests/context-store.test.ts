@@ -0,0 +1,155 @@
+// tests/context-store.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import nock from 'nock';
+import { FileContextStore, InMemoryContextStore } from '../src/context-store';
+import { ContextEntry, ContextStore } from '../src/types';
+
+const chatResponse = (content: string) => ({
+  id: 'chat-completion-id',
+  object: 'chat.completion',
+  created: 1234567890,
+  model: 'gpt-4o',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+const entries: ContextEntry[] = [
+  { role: 'user', content: 'Hello' },
+  { role: 'assistant', content: 'Hi there!' },
+];
+
+describe('Context stores', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-context-'));
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const stores: Array<[string, () => ContextStore]> = [
+    ['InMemoryContextStore', () => new InMemoryContextStore()],
+    ['FileContextStore', () => new FileContextStore(directory)],
+  ];
+
+  test.each(stores)('%s should load, save, append and clear', async (_name, createStore) => {
+    const store = createStore();
+
+    expect(await store.load('conversation-1')).toEqual([]);
+    await store.save('conversation-1', [entries[0]]);
+    await store.append('conversation-1', [entries[1]]);
+    expect(await store.load('conversation-1')).toEqual(entries);
+    expect(await store.load('conversation-2')).toEqual([]);
+
+    await store.clear('conversation-1');
+    expect(await store.load('conversation-1')).toEqual([]);
+  });
+
+  test('FileContextStore should serialize concurrent appends', async () => {
+    const store = new FileContextStore(directory);
+    await Promise.all(entries.map((entry) => store.append('concurrent', [entry])));
+    expect(await store.load('concurrent')).toEqual(entries);
+  });
+
+  test('should persist conversations across client instances', async () => {
+    const store = new FileContextStore(directory);
+    const firstClient = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      contextStore: store,
+    });
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, chatResponse('Hi Alice!'));
+    await firstClient
+      .createConversation({ id: 'user-42', defaults: { model: 'gpt-4o' } })
+      .send('I am Alice.');
+
+    // A new client, e.g. after a restart, picks the history up from the store
+    const secondClient = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      contextStore: store,
+    });
+    const conversation = secondClient.createConversation({
+      id: 'user-42',
+      defaults: { model: 'gpt-4o' },
+    });
+
+    let requestPayload: any;
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        requestPayload = body;
+        return true;
+      })
+      .reply(200, chatResponse('You are Alice.'));
+    await conversation.send('Who am I?');
+
+    expect(requestPayload.messages).toEqual([
+      { role: 'user', content: 'I am Alice.' },
+      { role: 'assistant', content: 'Hi Alice!' },
+      { role: 'user', content: 'Who am I?' },
+    ]);
+    expect(await store.load('user-42')).toHaveLength(4);
+  });
+
+  test('should store the initial context only for conversations the store does not hold', async () => {
+    const store = new InMemoryContextStore();
+    const seed: ContextEntry[] = [{ role: 'user', content: 'My name is Alice.' }];
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      contextStore: store,
+    });
+
+    // Every restart builds the conversation again with the same seed
+    for (let restart = 0; restart < 3; restart++) {
+      await client.createConversation({ id: 'user-42', context: seed }).load();
+    }
+    expect(await store.load('user-42')).toEqual(seed);
+
+    // Entries added before the first load follow the seed in a new conversation
+    const conversation = client.createConversation({ id: 'user-7', context: seed });
+    conversation.addToContext(entries[0]);
+    await conversation.flush();
+    expect(await store.load('user-7')).toEqual([...seed, entries[0]]);
+  });
+
+  test('should write the client-level context through the store', async () => {
+    const store = new InMemoryContextStore();
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      contextStore: store,
+    });
+
+    client.addBatchToContext(entries);
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(200, chatResponse('Ok.'));
+    await client.createChatCompletion({ model: 'gpt-4o', messages: [] });
+
+    expect(await store.load('default')).toEqual(entries);
+
+    client.clearContext();
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(200, chatResponse('Ok.'));
+    await client.createChatCompletion({ model: 'gpt-4o', messages: [] });
+
+    expect(await store.load('default')).toEqual([]);
+  });
+
+  test('should surface store write failures on the next request', async () => {
+    const store = new InMemoryContextStore();
+    store.append = jest.fn().mockRejectedValue(new Error('Store unavailable'));
+    const conversation = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+    }).createConversation({ defaults: { model: 'gpt-4o' }, contextStore: store });
+
+    conversation.addToContext(entries[0]);
+    await expect(conversation.createChatCompletion()).rejects.toThrow('Store unavailable');
+  });
+});
@@ -0,0 +1,153 @@
+// tests/context-summarization.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { SUMMARY_ENTRY_NAME, splitForSummary } from '../src/context-summarization';
+import { ContextEntry } from '../src/types';
+
+const chatResponse = (content: string) => ({
+  id: 'chat-completion-id',
+  object: 'chat.completion',
+  created: 1234567890,
+  model: 'gpt-4o-mini',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+const history: ContextEntry[] = [
+  { role: 'system', content: 'You are a helpful assistant.' },
+  { role: 'user', content: 'My name is Alice and I live in Lisbon.' },
+  { role: 'assistant', content: 'Nice to meet you, Alice!' },
+  { role: 'user', content: 'I like hiking.' },
+  { role: 'assistant', content: 'Hiking near Lisbon is great.' },
+  { role: 'user', content: 'Any trail suggestions?' },
+  { role: 'assistant', content: 'Try the Sintra trails.' },
+];
+
+describe('Context summarization', () => {
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should split pinned instructions, older entries and recent turns', () => {
+    const summary: ContextEntry = { role: 'system', name: SUMMARY_ENTRY_NAME, content: 'Earlier' };
+    const { pinned, older, recent } = splitForSummary(
+      [history[0], summary, ...history.slice(1)],
+      1
+    );
+
+    expect(pinned).toEqual([history[0]]);
+    expect(older).toEqual([summary, ...history.slice(1, 5)]);
+    expect(recent).toEqual(history.slice(5));
+  });
+
+  test('should replace older turns with a summary once past the threshold', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      contextSummarization: { thresholdTokens: 20, model: 'gpt-4o-mini', keepRecentTurns: 1 },
+    });
+    client.addBatchToContext(history);
+
+    const requestPayloads: any[] = [];
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        requestPayloads.push(body);
+        return true;
+      })
+      .reply(200, chatResponse('Alice lives in Lisbon and likes hiking.'))
+      .post('/v1/chat/completions', (body) => {
+        requestPayloads.push(body);
+        return true;
+      })
+      .reply(200, chatResponse('You could also try Arrábida.'));
+
+    await client.createChatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Anything else?' }],
+    });
+
+    expect(requestPayloads[0].model).toBe('gpt-4o-mini');
+    expect(requestPayloads[0].messages[1].content).toContain('user: I like hiking.');
+
+    const summaryEntry = {
+      role: 'system',
+      name: SUMMARY_ENTRY_NAME,
+      content: 'Alice lives in Lisbon and likes hiking.',
+    };
+    expect(client.getContext()).toEqual([history[0], summaryEntry, ...history.slice(5)]);
+    expect(requestPayloads[1].messages).toEqual([
+      history[0],
+      summaryEntry,
+      ...history.slice(5),
+      { role: 'user', content: 'Anything else?' },
+    ]);
+  });
+
+  test('should keep the caller-provided idempotency key for the main request', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      contextSummarization: { thresholdTokens: 20, keepRecentTurns: 1 },
+    });
+    client.addBatchToContext(history);
+
+    const keys: string[] = [];
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .times(2)
+      .reply(function () {
+        keys.push(this.req.headers['idempotency-key'] as string);
+        return [200, chatResponse(keys.length === 1 ? 'Alice likes hiking.' : 'Sure.')];
+      });
+
+    await client.createChatCompletion(
+      { model: 'gpt-4o', messages: [{ role: 'user', content: 'Anything else?' }] },
+      { idempotencyKey: 'chat-7' }
+    );
+
+    expect(keys[0]).toMatch(/^openai-enhanced-sdk-/);
+    expect(keys[1]).toBe('chat-7');
+  });
+
+  test('should leave the context untouched below the threshold', async () => {
+    const conversation = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+    }).createConversation({
+      defaults: { model: 'gpt-4o' },
+      context: history,
+      contextSummarization: { thresholdTokens: 10000 },
+    });
+
+    nock('https://api.openai.com').post('/v1/chat/completions').reply(200, chatResponse('Sure.'));
+
+    await conversation.send('Thanks!');
+    expect(conversation.getContext()).toHaveLength(history.length + 2);
+  });
+
+  test('should continue with the request when summarization fails', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      contextSummarization: { thresholdTokens: 20 },
+      axiosRetryConfig: { retries: 0 },
+    });
+    client.addBatchToContext(history);
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(400, { error: { message: 'Summary failed' } })
+      .post('/v1/chat/completions')
+      .reply(200, chatResponse('Sure.'));
+
+    const response = await client.createChatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Anything else?' }],
+    });
+
+    expect(response).toEqual(chatResponse('Sure.'));
+    expect(client.getContext()).toEqual(history);
+  });
+});
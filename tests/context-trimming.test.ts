@@ -0,0 +1,99 @@
+// tests/context-trimming.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { trimMessages } from '../src/context-trimming';
+import { countMessageTokens, countTokens } from '../src/token-counter';
+import { ChatMessage } from '../src/types';
+
+const model = 'gpt-4o';
+
+const history: ChatMessage[] = [
+  { role: 'system', content: 'You are a helpful assistant.' },
+  { role: 'user', content: 'First question about the solar system and its planets.' },
+  { role: 'assistant', content: 'The solar system has eight planets orbiting the Sun.' },
+  { role: 'user', content: 'Second question about Mars and its two moons.' },
+  { role: 'assistant', content: 'Mars has two moons named Phobos and Deimos.' },
+  { role: 'user', content: 'Third question.' },
+];
+
+describe('Token counting', () => {
+  test('should count tokens with the model encoding', () => {
+    expect(countTokens('hello world', model)).toBe(2);
+    expect(countTokens('', model)).toBe(0);
+  });
+
+  test('should include per-message overhead', () => {
+    const messages: ChatMessage[] = [{ role: 'user', content: 'hello world' }];
+    // 3 reply priming + 3 framing + 1 role + 2 content
+    expect(countMessageTokens(messages, model)).toBe(9);
+  });
+});
+
+describe('trimMessages', () => {
+  const budgetFor = (messages: ChatMessage[]) => countMessageTokens(messages, model);
+
+  test('drop-oldest should drop whole turns and keep system messages', () => {
+    const trimmed = trimMessages(
+      history,
+      { strategy: 'drop-oldest', maxTokens: budgetFor([history[0], ...history.slice(3)]) },
+      model
+    );
+    expect(trimmed).toEqual([history[0], ...history.slice(3)]);
+  });
+
+  test('sliding-window should keep the last N turns', () => {
+    const trimmed = trimMessages(history, { strategy: 'sliding-window', maxTurns: 1 }, model);
+    expect(trimmed).toEqual([history[0], history[5]]);
+  });
+
+  test('keep-first-and-last should keep the first turn and the latest turns', () => {
+    const expected = [history[0], history[1], history[2], history[5]];
+    const trimmed = trimMessages(
+      history,
+      { strategy: 'keep-first-and-last', maxTokens: budgetFor(expected) },
+      model
+    );
+    expect(trimmed).toEqual(expected);
+  });
+
+  test('should always keep the latest turn', () => {
+    const trimmed = trimMessages(history, { maxTokens: 1 }, model);
+    expect(trimmed).toEqual([history[0], history[5]]);
+  });
+
+  test('should accept a custom strategy', () => {
+    const trimmed = trimMessages(history, { strategy: (messages) => messages.slice(-1) }, model);
+    expect(trimmed).toEqual([history[5]]);
+  });
+
+  test('should trim the context before createChatCompletion sends it', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      contextTrimming: { strategy: 'sliding-window', maxTurns: 2 },
+    });
+    client.addBatchToContext(history.slice(0, 5));
+
+    let requestPayload: any;
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        requestPayload = body;
+        return true;
+      })
+      .reply(200, {
+        id: 'chat-completion-id',
+        object: 'chat.completion',
+        created: 1234567890,
+        model,
+        choices: [
+          { index: 0, message: { role: 'assistant', content: 'Ok.' }, finish_reason: 'stop' },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 1, total_tokens: 11 },
+      });
+
+    await client.createChatCompletion({ model, messages: [history[5]] });
+
+    expect(requestPayload.messages).toEqual([history[0], ...history.slice(3)]);
+    expect(client.getContext()).toHaveLength(5);
+  });
+});
@@ -0,0 +1,132 @@
+// tests/conversation.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+
+const chatResponse = (content: string) => ({
+  id: 'chat-completion-id',
+  object: 'chat.completion',
+  created: 1234567890,
+  model: 'gpt-4o',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+describe('Conversation', () => {
+  const client = new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should keep independent histories per conversation', async () => {
+    const alice = client.createConversation({
+      systemPrompt: 'You are talking to Alice.',
+      defaults: { model: 'gpt-4o', temperature: 0.2 },
+    });
+    const bob = client.createConversation({ defaults: { model: 'gpt-4o-mini' } });
+
+    const requestPayloads: any[] = [];
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        requestPayloads.push(body);
+        return true;
+      })
+      .times(2)
+      .reply(200, chatResponse('Hi!'));
+
+    await Promise.all([alice.send('Hello, I am Alice.'), bob.send('Hello, I am Bob.')]);
+
+    const aliceRequest = requestPayloads.find((body) => body.model === 'gpt-4o');
+    expect(aliceRequest.temperature).toBe(0.2);
+    expect(aliceRequest.messages).toEqual([
+      { role: 'system', content: 'You are talking to Alice.' },
+      { role: 'user', content: 'Hello, I am Alice.' },
+    ]);
+    expect(alice.getContext()).toEqual([
+      { role: 'user', content: 'Hello, I am Alice.' },
+      { role: 'assistant', content: 'Hi!' },
+    ]);
+    expect(bob.getContext()[0]).toEqual({ role: 'user', content: 'Hello, I am Bob.' });
+    expect(client.getContext()).toEqual([]);
+    expect(alice.id).not.toBe(bob.id);
+  });
+
+  test('should send the history with the next turn', async () => {
+    const conversation = client.createConversation({ defaults: { model: 'gpt-4o' } });
+
+    let requestPayload: any;
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, chatResponse('Nice to meet you.'))
+      .post('/v1/chat/completions', (body) => {
+        requestPayload = body;
+        return true;
+      })
+      .reply(200, chatResponse('You are Carol.'));
+
+    await conversation.send('I am Carol.');
+    await conversation.send('Who am I?', { temperature: 0 });
+
+    expect(requestPayload.temperature).toBe(0);
+    expect(requestPayload.messages).toHaveLength(3);
+    expect(conversation.getContext()).toHaveLength(4);
+  });
+
+  test('should record refusals and audio replies that have no content', async () => {
+    const conversation = client.createConversation({ defaults: { model: 'gpt-4o-audio-preview' } });
+    const reply = (message: object) => ({
+      ...chatResponse(''),
+      choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: 'stop' }],
+    });
+
+    let requestPayload: any;
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, reply({ content: null, refusal: 'I cannot help with that.' }))
+      .post('/v1/chat/completions')
+      .reply(
+        200,
+        reply({ content: null, audio: { id: 'audio_1', data: 'UklGRg==', transcript: 'Hello!' } })
+      )
+      .post('/v1/chat/completions', (body) => {
+        requestPayload = body;
+        return true;
+      })
+      .reply(200, chatResponse('Bye!'));
+
+    await conversation.send('Help me pick a lock.');
+    await conversation.send('Say hello out loud.');
+    await conversation.send('Goodbye.');
+
+    expect(requestPayload.messages).toEqual([
+      { role: 'user', content: 'Help me pick a lock.' },
+      { role: 'assistant', content: null, refusal: 'I cannot help with that.' },
+      { role: 'user', content: 'Say hello out loud.' },
+      { role: 'assistant', content: null, audio: { id: 'audio_1' } },
+      { role: 'user', content: 'Goodbye.' },
+    ]);
+    expect(conversation.getContext()).toHaveLength(6);
+  });
+
+  test('should not record the turn when the request fails', async () => {
+    const conversation = client.createConversation({ defaults: { model: 'gpt-4o' } });
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(400, { error: { message: 'Invalid request' } });
+
+    await expect(conversation.send('Hello')).rejects.toThrow('Invalid request');
+    expect(conversation.getContext()).toEqual([]);
+  });
+
+  test('should require a model', async () => {
+    const conversation = client.createConversation();
+    await expect(conversation.send('Hello')).rejects.toThrow('A model must be set');
+  });
+});
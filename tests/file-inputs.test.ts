@@ -0,0 +1,157 @@
+// tests/file-inputs.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Blob, File } from 'buffer';
+import { Readable } from 'stream';
+import { resolveFile, toFile } from '../src/file-inputs';
+import { guessExtension } from '../src/uploads';
+import { UploadProgress } from '../src/types';
+
+const fileObject = { id: 'file-1', object: 'file', bytes: 7, filename: 'notes.jsonl' };
+
+describe('File inputs', () => {
+  let directory: string;
+
+  const createClient = () =>
+    new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-file-inputs-'));
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should name in-memory data, Blobs, Files and streams', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 3]);
+
+    await expect(toFile(Buffer.from('{"a":1}'), 'data.jsonl')).resolves.toMatchObject({
+      filename: 'data.jsonl',
+      contentType: 'application/jsonl',
+      size: 7,
+    });
+    await expect(toFile(bytes.subarray(1), 'bytes.bin')).resolves.toMatchObject({
+      data: Buffer.from([1, 2, 3]),
+      contentType: 'application/octet-stream',
+      size: 3,
+    });
+    await expect(toFile(new Blob(['hello'], { type: 'text/plain' }))).resolves.toMatchObject({
+      data: Buffer.from('hello'),
+      filename: 'file.txt',
+      contentType: 'text/plain',
+    });
+    await expect(toFile(new File(['abc'], 'photo.png'))).resolves.toMatchObject({
+      filename: 'photo.png',
+      contentType: 'image/png',
+    });
+    await expect(
+      toFile(Readable.from(['chunk']), 'speech.webm', { contentType: 'audio/webm' })
+    ).resolves.toMatchObject({ filename: 'speech.webm', contentType: 'audio/webm' });
+  });
+
+  test('should read the name of file streams and fall back for unnamed data', async () => {
+    const filePath = path.join(directory, 'speech.mp3');
+    fs.writeFileSync(filePath, 'audio');
+
+    await expect(resolveFile(filePath, 'audio')).resolves.toMatchObject({
+      filename: 'speech.mp3',
+      contentType: 'audio/mpeg',
+      size: 5,
+    });
+    await expect(resolveFile(fs.createReadStream(filePath), 'audio')).resolves.toMatchObject({
+      filename: 'speech.mp3',
+      contentType: 'audio/mpeg',
+    });
+    await expect(resolveFile(Buffer.from('image'), 'image.png')).resolves.toMatchObject({
+      filename: 'image.png',
+      contentType: 'image/png',
+    });
+  });
+
+  test('should give unnamed data the extension of its MIME type', async () => {
+    expect(guessExtension('audio/webm;codecs=opus')).toBe('.webm');
+    expect(guessExtension('audio/x-wav')).toBe('.wav');
+    expect(guessExtension('application/x-unknown')).toBeUndefined();
+
+    await expect(
+      resolveFile(new Blob(['speech'], { type: 'audio/webm' }), 'audio')
+    ).resolves.toMatchObject({ filename: 'audio.webm', contentType: 'audio/webm' });
+    await expect(resolveFile(Buffer.from('speech'), 'audio')).resolves.toMatchObject({
+      filename: 'audio',
+      contentType: 'application/octet-stream',
+    });
+    await expect(
+      toFile(Readable.from(['speech']), undefined, { contentType: 'audio/mpeg' })
+    ).resolves.toMatchObject({ filename: 'file.mp3', contentType: 'audio/mpeg' });
+  });
+
+  test('should upload a Buffer with progress and reject a missing file', async () => {
+    const client = createClient();
+    const progress: UploadProgress[] = [];
+
+    nock('https://api.openai.com')
+      .post(
+        '/v1/files',
+        (body) =>
+          body.includes('{"a":1}') &&
+          body.includes('filename="notes.jsonl"') &&
+          body.includes('Content-Type: application/jsonl')
+      )
+      .reply(200, fileObject);
+
+    await expect(
+      client.uploadFile({
+        file: await toFile(Buffer.from('{"a":1}'), 'notes.jsonl'),
+        purpose: 'batch',
+        onProgress: (update) => progress.push(update),
+      })
+    ).resolves.toEqual(fileObject);
+    expect(progress[progress.length - 1]).toEqual({ bytesSent: 7, totalBytes: 7 });
+
+    await expect(client.uploadFile({ purpose: 'batch' })).rejects.toThrow(
+      'uploadFile requires a file'
+    );
+  });
+
+  test('should send streams and Blobs to the audio and image endpoints', async () => {
+    const client = createClient();
+
+    nock('https://api.openai.com')
+      .post(
+        '/v1/audio/transcriptions',
+        (body) =>
+          body.includes('spoken words') &&
+          body.includes('filename="meeting.webm"') &&
+          body.includes('Content-Type: audio/webm')
+      )
+      .reply(200, { text: 'Hello' })
+      .post(
+        '/v1/images/edits',
+        (body) =>
+          body.includes('filename="cat.png"') &&
+          body.includes('filename="mask.png"') &&
+          body.includes('name="prompt"')
+      )
+      .reply(200, { created: 1234567890, data: [] });
+
+    const recording = await toFile(Readable.from(['spoken words']), 'meeting.webm', {
+      contentType: 'audio/webm',
+    });
+    await expect(client.transcribeAudio(recording)).resolves.toEqual({ text: 'Hello' });
+    await expect(
+      client.createImageEdit({
+        image: new File(['pixels'], 'cat.png', { type: 'image/png' }),
+        mask: Buffer.from('mask'),
+        prompt: 'Add a hat.',
+      })
+    ).resolves.toEqual({ created: 1234567890, data: [] });
+  });
+});
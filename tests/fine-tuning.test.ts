@@ -0,0 +1,197 @@
+// tests/fine-tuning.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { FineTuningError } from '../src/errors';
+import { FineTuningJob, FineTuningJobEvent } from '../src/types';
+
+const job = (overrides: Partial<FineTuningJob> = {}): FineTuningJob => ({
+  id: 'ftjob-1',
+  object: 'fine_tuning.job',
+  created_at: 1234567890,
+  finished_at: null,
+  model: 'gpt-4o-mini-2024-07-18',
+  fine_tuned_model: null,
+  organization_id: 'org-1',
+  status: 'running',
+  hyperparameters: { n_epochs: 'auto' },
+  training_file: 'file-train',
+  validation_file: null,
+  result_files: [],
+  trained_tokens: null,
+  error: null,
+  ...overrides,
+});
+
+const event = (id: string, message: string): FineTuningJobEvent => ({
+  id,
+  object: 'fine_tuning.job.event',
+  created_at: 1234567890,
+  level: 'info',
+  message,
+});
+
+describe('Fine-tuning jobs', () => {
+  const createClient = () =>
+    new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should create, list, retrieve, pause, resume and cancel jobs', async () => {
+    const client = createClient();
+    const options = {
+      model: 'gpt-4o-mini-2024-07-18',
+      training_file: 'file-train',
+      method: {
+        type: 'dpo' as const,
+        dpo: { hyperparameters: { beta: 0.1, n_epochs: 2 } },
+      },
+      integrations: [{ type: 'wandb' as const, wandb: { project: 'tuning' } }],
+    };
+
+    nock('https://api.openai.com')
+      .post('/v1/fine_tuning/jobs', options)
+      .reply(200, job({ status: 'validating_files' }))
+      .get('/v1/fine_tuning/jobs')
+      .query({ limit: 1 })
+      .reply(200, { object: 'list', data: [job()], has_more: true })
+      .get('/v1/fine_tuning/jobs/ftjob-1')
+      .reply(200, job())
+      .post('/v1/fine_tuning/jobs/ftjob-1/pause')
+      .reply(200, job({ status: 'paused' }))
+      .post('/v1/fine_tuning/jobs/ftjob-1/resume')
+      .reply(200, job())
+      .post('/v1/fine_tuning/jobs/ftjob-1/cancel')
+      .reply(200, job({ status: 'cancelled' }));
+
+    await expect(client.createFineTuningJob(options)).resolves.toMatchObject({
+      status: 'validating_files',
+    });
+    await expect(client.listFineTuningJobs({ limit: 1 })).resolves.toMatchObject({
+      has_more: true,
+    });
+    await expect(client.retrieveFineTuningJob('ftjob-1')).resolves.toMatchObject({
+      status: 'running',
+    });
+    await expect(client.pauseFineTuningJob('ftjob-1')).resolves.toMatchObject({
+      status: 'paused',
+    });
+    await expect(client.resumeFineTuningJob('ftjob-1')).resolves.toMatchObject({
+      status: 'running',
+    });
+    await expect(client.cancelFineTuningJob('ftjob-1')).resolves.toMatchObject({
+      status: 'cancelled',
+    });
+  });
+
+  test('should list events and checkpoints with pagination options', async () => {
+    const client = createClient();
+    const checkpoint = {
+      id: 'ftckpt-1',
+      object: 'fine_tuning.job.checkpoint',
+      created_at: 1234567890,
+      fine_tuned_model_checkpoint: 'ft:gpt-4o-mini:org::ckpt-step-10',
+      fine_tuning_job_id: 'ftjob-1',
+      step_number: 10,
+      metrics: { step: 10, train_loss: 0.5 },
+    };
+
+    nock('https://api.openai.com')
+      .get('/v1/fine_tuning/jobs/ftjob-1/events')
+      .query({ after: 'ev-3', limit: 2 })
+      .reply(200, {
+        object: 'list',
+        data: [event('ev-2', 'Step 2'), event('ev-1', 'Step 1')],
+        has_more: false,
+      })
+      .get('/v1/fine_tuning/jobs/ftjob-1/checkpoints')
+      .reply(200, { object: 'list', data: [checkpoint], has_more: false });
+
+    const events = await client.listFineTuningEvents('ftjob-1', { after: 'ev-3', limit: 2 });
+    expect(events.data.map(({ id }) => id)).toEqual(['ev-2', 'ev-1']);
+    const checkpoints = await client.listFineTuningCheckpoints('ftjob-1');
+    expect(checkpoints.data[0].metrics.train_loss).toBe(0.5);
+  });
+
+  test('should stream new events in order and resolve with the fine-tuned model', async () => {
+    const client = createClient();
+    const messages: string[] = [];
+
+    nock('https://api.openai.com')
+      .get('/v1/fine_tuning/jobs/ftjob-1')
+      .reply(200, job())
+      .get('/v1/fine_tuning/jobs/ftjob-1/events')
+      .query({ limit: 100 })
+      .reply(200, {
+        object: 'list',
+        data: [event('ev-2', 'Fine-tuning job started'), event('ev-1', 'Validating training file')],
+        has_more: false,
+      })
+      .get('/v1/fine_tuning/jobs/ftjob-1')
+      .reply(200, job({ status: 'succeeded', fine_tuned_model: 'ft:gpt-4o-mini:org::abc123' }))
+      // The newest events span two pages; the second one reaches the last event seen
+      .get('/v1/fine_tuning/jobs/ftjob-1/events')
+      .query({ limit: 100 })
+      .reply(200, {
+        object: 'list',
+        data: [event('ev-4', 'The job has successfully completed')],
+        has_more: true,
+      })
+      .get('/v1/fine_tuning/jobs/ftjob-1/events')
+      .query({ after: 'ev-4', limit: 100 })
+      .reply(200, {
+        object: 'list',
+        data: [
+          event('ev-3', 'Step 1/10: training loss=1.2'),
+          event('ev-2', 'Fine-tuning job started'),
+        ],
+        has_more: true,
+      });
+
+    await expect(
+      client.waitForFineTuningJob('ftjob-1', {
+        pollInterval: 10,
+        onEvent: ({ message }) => messages.push(message),
+      })
+    ).resolves.toBe('ft:gpt-4o-mini:org::abc123');
+
+    expect(messages).toEqual([
+      'Validating training file',
+      'Fine-tuning job started',
+      'Step 1/10: training loss=1.2',
+      'The job has successfully completed',
+    ]);
+  });
+
+  test('should reject with a FineTuningError when the job fails or is cancelled', async () => {
+    const client = createClient();
+    const failed = job({
+      status: 'failed',
+      error: { code: 'invalid_training_file', message: 'Training file has too few examples' },
+    });
+
+    nock('https://api.openai.com')
+      .get('/v1/fine_tuning/jobs/ftjob-1')
+      .reply(200, failed)
+      .get('/v1/fine_tuning/jobs/ftjob-2')
+      .reply(200, job({ id: 'ftjob-2', status: 'cancelled' }));
+
+    const error = await client.waitForFineTuningJob('ftjob-1').catch((caught) => caught);
+    expect(error).toBeInstanceOf(FineTuningError);
+    expect(error.message).toBe(
+      'Fine-tuning job ftjob-1 failed: Training file has too few examples'
+    );
+    expect(error.job.error.code).toBe('invalid_training_file');
+
+    await expect(client.waitForFineTuningJob('ftjob-2')).rejects.toThrow(
+      'Fine-tuning job ftjob-2 was cancelled'
+    );
+  });
+});
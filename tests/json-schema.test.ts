@@ -0,0 +1,59 @@
+// tests/json-schema.test.ts
+
+import { validateJsonSchema } from '../src/json-schema';
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      tags: { type: 'array', items: { $ref: '#/$defs/tag' } },
+      status: { enum: ['active', 'inactive'] },
+      score: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+    },
+    required: ['name', 'status'],
+    additionalProperties: false,
+    $defs: {
+      tag: { type: 'string', pattern: '^[a-z]+$' },
+    },
+  };
+
+  test('should accept a conforming value', () => {
+    expect(
+      validateJsonSchema({ name: 'a', tags: ['x'], status: 'active', score: null }, schema)
+    ).toEqual([]);
+  });
+
+  test('should report issues with their paths', () => {
+    const issues = validateJsonSchema({ tags: ['ok', 'NOT'], status: 'gone', extra: 1 }, schema);
+
+    expect(issues).toEqual([
+      { path: '$.name', message: 'Required property is missing' },
+      { path: '$.tags[1]', message: 'String must match pattern ^[a-z]+$' },
+      { path: '$.status', message: 'Value must be one of ["active","inactive"]' },
+      { path: '$.extra', message: 'Unexpected property' },
+    ]);
+  });
+
+  test('should ignore keys inherited from the object prototype', () => {
+    expect(validateJsonSchema({}, { type: 'object', required: ['toString'] })).toEqual([
+      { path: '$.toString', message: 'Required property is missing' },
+    ]);
+    expect(
+      validateJsonSchema(JSON.parse('{"constructor":1,"__proto__":2}'), {
+        type: 'object',
+        properties: {},
+        additionalProperties: false,
+      })
+    ).toEqual([
+      { path: '$.constructor', message: 'Unexpected property' },
+      { path: '$.__proto__', message: 'Unexpected property' },
+    ]);
+  });
+
+  test('should report type mismatches', () => {
+    expect(validateJsonSchema('text', { type: 'integer' })).toEqual([
+      { path: '$', message: 'Expected integer, received string' },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+// tests/logging.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { format } from 'winston';
+import { Logger } from '../src/types';
+
+const createLogger = (): jest.Mocked<Logger> => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+});
+
+describe('Logging', () => {
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should send structured records to an injected logger', async () => {
+    const logger = createLogger();
+    const client = new OpenAIClient('test-api-key', { loggingOptions: { logger } });
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(
+        200,
+        {
+          id: 'chatcmpl-1',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' } }],
+          usage: { prompt_tokens: 9, completion_tokens: 1, total_tokens: 10 },
+        },
+        { 'x-request-id': 'req_123' }
+      );
+
+    await client.createChatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+
+    expect(logger.info).toHaveBeenCalledWith('Request: POST /chat/completions', {
+      method: 'POST',
+      endpoint: '/chat/completions',
+    });
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringMatching(/^Response: POST \/chat\/completions 200 in \d+ms$/),
+      expect.objectContaining({
+        status: 200,
+        requestId: 'req_123',
+        durationMs: expect.any(Number),
+        tokens: { prompt: 9, completion: 1, total: 10 },
+      })
+    );
+    expect(logger.debug).toHaveBeenCalledWith(expect.stringMatching(/^Payload: /));
+  });
+
+  test('should log failed requests with their status and request id', async () => {
+    const logger = createLogger();
+    const client = new OpenAIClient('test-api-key', { loggingOptions: { logger } });
+
+    nock('https://api.openai.com')
+      .get('/v1/files/file-1')
+      .reply(404, { error: { message: 'No such file' } }, { 'x-request-id': 'req_404' });
+
+    await expect(client.retrieveFile('file-1')).rejects.toThrow('No such file');
+
+    expect(logger.warn).toHaveBeenCalledWith('Request failed: GET /files/file-1: No such file', {
+      method: 'GET',
+      endpoint: '/files/file-1',
+      stream: false,
+      status: 404,
+      requestId: 'req_404',
+      error: 'NotFoundError',
+    });
+  });
+
+  test('should not log anything in silent mode', async () => {
+    const logger = createLogger();
+    const client = new OpenAIClient('test-api-key', { loggingOptions: { logger, silent: true } });
+
+    nock('https://api.openai.com').get('/v1/models').reply(200, { data: [], object: 'list' });
+    await client.listModels();
+
+    Object.values(logger).forEach((method) => expect(method).not.toHaveBeenCalled());
+  });
+
+  test('should apply logFormat to the logger it builds', () => {
+    const logFormat = format.combine(format.timestamp(), format.json());
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logFormat, logToFile: true, logFilePath: '/dev/null' },
+    });
+
+    const { transports } = (client as any).logger;
+    expect(transports).toHaveLength(2);
+    transports.forEach((transport: { format: unknown }) =>
+      expect(transport.format).toBe(logFormat)
+    );
+  });
+});
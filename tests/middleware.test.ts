@@ -0,0 +1,128 @@
+// tests/middleware.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { NotFoundError } from '../src/errors';
+import { ChatCompletionStream } from '../src/streams';
+import { MiddlewareContext } from '../src/types';
+
+const sse = (chunks: object[]) =>
+  chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+const chatChunk = (content: string) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 1234567890,
+  model: 'gpt-4o',
+  choices: [{ index: 0, delta: { content }, finish_reason: null }],
+});
+
+describe('Middleware', () => {
+  const createClient = () =>
+    new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should let beforeRequest tag headers and scrub the payload', async () => {
+    const client = createClient().use({
+      beforeRequest: (context) => {
+        context.headers['X-Team'] = 'search';
+        context.data.input = context.data.input.replace(/\S+@\S+/g, '[email]');
+      },
+    });
+    const options = { model: 'text-embedding-3-small', input: 'Contact jane@example.com' };
+
+    nock('https://api.openai.com', { reqheaders: { 'x-team': 'search' } })
+      .post('/v1/embeddings', { model: 'text-embedding-3-small', input: 'Contact [email]' })
+      .reply(200, { object: 'list', data: [] });
+
+    await expect(client.createEmbedding(options)).resolves.toEqual({ object: 'list', data: [] });
+    expect(options.input).toBe('Contact jane@example.com');
+  });
+
+  test('should short-circuit a request answered by beforeRequest', async () => {
+    const cached = { id: 'gpt-4o', object: 'model', created: 1234567890, owned_by: 'openai' };
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      middleware: [
+        {
+          beforeRequest: (context) => (context.endpoint === '/models/gpt-4o' ? cached : undefined),
+        },
+      ],
+    });
+
+    await expect(client.retrieveModel('gpt-4o')).resolves.toBe(cached);
+  });
+
+  test('should pass results through afterResponse in registration order', async () => {
+    const seen: string[] = [];
+    const client = createClient()
+      .use({
+        afterResponse: (context: MiddlewareContext, result) => {
+          seen.push(`${context.method} ${context.endpoint}`);
+          return { ...result, tagged: true };
+        },
+      })
+      .use({
+        afterResponse: (_context, result) => {
+          seen.push(String(result.tagged));
+        },
+      });
+
+    nock('https://api.openai.com').get('/v1/models').reply(200, { data: [], object: 'list' });
+
+    await expect(client.listModels()).resolves.toEqual({ data: [], object: 'list', tagged: true });
+    expect(seen).toEqual(['GET /models', 'true']);
+  });
+
+  test('should let onError recover from or replace an error', async () => {
+    const client = createClient().use({
+      onError: (context, error) => {
+        if (error instanceof NotFoundError && context.endpoint === '/files/file-1') {
+          return { id: 'file-1', object: 'file', status: 'deleted' };
+        }
+        throw new Error(`Wrapped: ${error.message}`);
+      },
+    });
+
+    nock('https://api.openai.com')
+      .get('/v1/files/file-1')
+      .reply(404, { error: { message: 'No such file' } })
+      .get('/v1/files/file-2')
+      .reply(400, { error: { message: 'Invalid id' } });
+
+    await expect(client.retrieveFile('file-1')).resolves.toMatchObject({ status: 'deleted' });
+    await expect(client.retrieveFile('file-2')).rejects.toThrow('Wrapped: Invalid id');
+  });
+
+  test('should pass every stream chunk through onStreamChunk', async () => {
+    const client = createClient().use({
+      onStreamChunk: (context, chunk) => {
+        expect(context.stream).toBe(true);
+        chunk.choices[0].delta.content = chunk.choices[0].delta.content.toUpperCase();
+        return chunk;
+      },
+    });
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, sse([chatChunk('Hello'), chatChunk(', world!')]), {
+        'Content-Type': 'text/event-stream',
+      });
+
+    const stream = (await client.createChatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Say hello.' }],
+      stream: true,
+    })) as ChatCompletionStream;
+
+    expect((await stream.finalMessage()).content).toBe('HELLO, WORLD!');
+  });
+});
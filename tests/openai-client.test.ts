@@ -5,6 +5,17 @@ import { config } from 'dotenv';
 import nock from 'nock';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import { ContextEntry, CreateChatCompletionOptions } from 'types';
+import {
+  ToolCallError,
+  StructuredOutputError,
+  RequestCancelledError,
+  APIError,
+  NotFoundError,
+  InternalServerError,
+  TimeoutError,
+  ConnectionError,
+  ValidationError,
+} from '../src/errors';
 
 config();
 
@@ -73,7 +84,7 @@ nock.disableNetConnect();
       content: 'This should fail.',
     };
     expect(() => client.addToContext(invalidEntry as any)).toThrow(
-      'Context entry must be an object with role ("system", "user", or "assistant") and content properties'
+      'Context entry must be an object with role ("system", "user", "assistant", "tool", or "function") and content properties'
     );
   });
 
@@ -89,7 +100,7 @@ nock.disableNetConnect();
       },
     ];
     expect(() => client.addBatchToContext(invalidEntries as any)).toThrow(
-      'Context entry must be an object with role ("system", "user", or "assistant") and content properties'
+      'Context entry must be an object with role ("system", "user", "assistant", "tool", or "function") and content properties'
     );
   });
 
@@ -157,6 +168,239 @@ nock.disableNetConnect();
     expect(requestPayload.messages).toEqual(expectedMessages);
   });
 
+  // === Tool Calling Tests ===
+
+  test('should run the tool loop and record every step in context', async () => {
+    client.clearContext();
+    const handler = jest.fn(async ({ city }: { city: string }) => ({ city, forecast: 'rain' }));
+    client.registerTool({
+      name: 'get_weather',
+      description: 'Gets the weather for a city.',
+      parameters: {
+        type: 'object',
+        properties: { city: { type: 'string' } },
+        required: ['city'],
+      },
+      handler,
+    });
+
+    const toolCall = {
+      id: 'call_1',
+      type: 'function',
+      function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+    };
+
+    const requestPayloads: any[] = [];
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        requestPayloads.push(body);
+        return true;
+      })
+      .reply(200, {
+        id: 'chat-1',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4o',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: null, tool_calls: [toolCall] },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      })
+      .post('/v1/chat/completions', (body) => {
+        requestPayloads.push(body);
+        return true;
+      })
+      .reply(200, {
+        id: 'chat-2',
+        object: 'chat.completion',
+        created: 1234567891,
+        model: 'gpt-4o',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Take an umbrella.' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+      });
+
+    const response = await client.runTools({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Do I need an umbrella in Paris?' }],
+    });
+
+    expect(response.choices[0].message?.content).toBe('Take an umbrella.');
+    expect(handler).toHaveBeenCalledWith({ city: 'Paris' }, toolCall);
+    expect(requestPayloads[0].tools[0].function.name).toBe('get_weather');
+    expect(requestPayloads[1].messages).toEqual([
+      { role: 'user', content: 'Do I need an umbrella in Paris?' },
+      { role: 'assistant', content: null, tool_calls: [toolCall] },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"city":"Paris","forecast":"rain"}' },
+    ]);
+    expect(client.getContext()).toHaveLength(4);
+
+    client.unregisterTool('get_weather');
+    client.clearContext();
+  });
+
+  test('should record a refusal without content at the end of the tool loop', async () => {
+    client.clearContext();
+    const refusal = { role: 'assistant', content: null, refusal: 'I cannot help with that.' };
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, {
+        id: 'chat-1',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4o',
+        choices: [{ index: 0, message: refusal, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+
+    const response = await client.runTools({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Help me pick a lock.' }],
+    });
+
+    expect(response.choices[0].message?.refusal).toBe('I cannot help with that.');
+    expect(client.getContext()).toEqual([
+      { role: 'user', content: 'Help me pick a lock.' },
+      refusal,
+    ]);
+    client.clearContext();
+  });
+
+  test('should throw ToolCallError when the tool loop exceeds maxIterations', async () => {
+    client.clearContext();
+    client.registerTool({ name: 'noop', handler: () => 'ok' });
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, {
+        id: 'chat-1',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4o',
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                { id: 'call_1', type: 'function', function: { name: 'noop', arguments: '' } },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+
+    await expect(
+      client.runTools({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Loop forever.' }],
+        maxIterations: 1,
+      })
+    ).rejects.toThrow(ToolCallError);
+
+    client.unregisterTool('noop');
+    client.clearContext();
+  });
+
+  // === Structured Output Tests ===
+
+  const structuredSchema = {
+    type: 'object',
+    properties: {
+      city: { type: 'string' },
+      population: { type: 'integer' },
+    },
+    required: ['city', 'population'],
+    additionalProperties: false,
+  };
+
+  const chatResponseWithContent = (content: string) => ({
+    id: 'chat-completion-id',
+    object: 'chat.completion',
+    created: 1234567890,
+    model: 'gpt-4o',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+  });
+
+  test('should send a json_schema response_format and return the parsed reply', async () => {
+    client.clearContext();
+    let requestPayload: any;
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        requestPayload = body;
+        return true;
+      })
+      .reply(200, chatResponseWithContent('{"city":"Paris","population":2100000}'));
+
+    const response = await client.createStructuredChatCompletion<{ city: string }>({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Largest city in France?' }],
+      schema: structuredSchema,
+      schemaName: 'city',
+    });
+
+    expect(response.parsed).toEqual({ city: 'Paris', population: 2100000 });
+    expect(requestPayload.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'city', schema: structuredSchema },
+    });
+  });
+
+  test('should throw StructuredOutputError with the validation path', async () => {
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, chatResponseWithContent('{"city":"Paris","population":"lots"}'));
+
+    const promise = client.createStructuredChatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Largest city in France?' }],
+      schema: structuredSchema,
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(promise).rejects.toMatchObject({ path: '$.population' });
+  });
+
+  test('should ask the model to repair a non-conforming reply', async () => {
+    const requestPayloads: any[] = [];
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => {
+        requestPayloads.push(body);
+        return true;
+      })
+      .reply(200, chatResponseWithContent('{"city":"Paris"}'))
+      .post('/v1/chat/completions', (body) => {
+        requestPayloads.push(body);
+        return true;
+      })
+      .reply(200, chatResponseWithContent('{"city":"Paris","population":2100000}'));
+
+    const response = await client.createStructuredChatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Largest city in France?' }],
+      schema: structuredSchema,
+      maxRepairAttempts: 1,
+    });
+
+    expect(response.parsed.population).toBe(2100000);
+    expect(requestPayloads[1].messages).toHaveLength(3);
+    expect(requestPayloads[1].messages[2].content).toContain('$.population');
+  });
+
   // === Completion Tests ===
 
   test('should create a completion', async () => {
@@ -297,4 +541,250 @@ nock.disableNetConnect();
 
     await expect(client.createCompletion(completionOptions)).rejects.toThrow('Invalid model');
   });
+
+  test('should attach the request id and error fields to typed errors', async () => {
+    nock('https://api.openai.com')
+      .get('/v1/models/gpt-5-unknown')
+      .reply(
+        404,
+        {
+          error: {
+            message: 'The model does not exist',
+            type: 'invalid_request_error',
+            param: 'model',
+            code: 'model_not_found',
+          },
+        },
+        { 'x-request-id': 'req_123' }
+      );
+
+    const error = await client.retrieveModel('gpt-5-unknown').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(APIError);
+    expect(error).toMatchObject({
+      statusCode: 404,
+      requestId: 'req_123',
+      code: 'model_not_found',
+      type: 'invalid_request_error',
+      param: 'model',
+    });
+    expect(error.headers['x-request-id']).toBe('req_123');
+  });
+
+  test('should map 5xx responses to InternalServerError', async () => {
+    nock('https://api.openai.com')
+      .get('/v1/models')
+      .reply(502, { error: { message: 'Bad gateway', type: 'server_error' } });
+
+    await expect(client.listModels({ maxRetries: 0 })).rejects.toBeInstanceOf(InternalServerError);
+  });
+
+  test('should raise TimeoutError and ConnectionError when no response arrives', async () => {
+    nock('https://api.openai.com').get('/v1/models').delay(500).reply(200, {});
+    await expect(client.listModels({ timeout: 50, maxRetries: 0 })).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+
+    nock('https://api.openai.com').get('/v1/models').replyWithError('socket hang up');
+    const error = await client.listModels({ maxRetries: 0 }).catch((e) => e);
+    expect(error).toBeInstanceOf(ConnectionError);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    nock.cleanAll();
+  });
+
+  test('should read the error body of a failed streaming request', async () => {
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(400, { error: { message: 'Invalid messages', code: 'invalid_value' } });
+
+    const error = await client
+      .createChatCompletion({ model: 'gpt-4o', messages: [], stream: true })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Invalid messages');
+    expect(error.code).toBe('invalid_value');
+  });
+
+  // === Raw Response Tests ===
+
+  test('should return the response metadata alongside the data', async () => {
+    nock('https://api.openai.com')
+      .post('/v1/embeddings')
+      .reply(
+        200,
+        { object: 'list', data: [] },
+        { 'x-request-id': 'req_456', 'openai-processing-ms': '42' }
+      );
+
+    const { data, response } = await client.withResponse(() =>
+      client.createEmbedding({ model: 'text-embedding-3-small', input: 'Hello' })
+    );
+
+    expect(data).toEqual({ object: 'list', data: [] });
+    expect(response).toMatchObject({ status: 200, requestId: 'req_456' });
+    expect(response.headers['openai-processing-ms']).toBe('42');
+    expect(response.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should reject withResponse when the call sends no request', async () => {
+    await expect(client.withResponse(async () => client.getTools())).rejects.toThrow(
+      'The call passed to withResponse did not send any request'
+    );
+  });
+
+  // === Request Options Tests ===
+
+  test('should reuse one idempotency key across retries of a POST', async () => {
+    const retryingClient = new OpenAIClient(apiKey, {
+      loggingOptions: { logLevel: 'error' },
+      axiosRetryConfig: { retryDelay: () => 0 },
+    });
+    const keys: string[] = [];
+
+    nock('https://api.openai.com')
+      .post('/v1/embeddings')
+      .times(2)
+      .reply(function () {
+        keys.push(this.req.headers['idempotency-key'] as string);
+        return keys.length === 1 ? [500, { error: { message: 'Server error' } }] : [200, {}];
+      });
+
+    await retryingClient.createEmbedding({ model: 'text-embedding-3-small', input: 'Hello' });
+
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toMatch(/^openai-enhanced-sdk-/);
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  test('should send per-request headers and a caller-provided idempotency key', async () => {
+    nock('https://api.openai.com', {
+      reqheaders: { 'x-trace-id': 'trace-1', 'idempotency-key': 'embed-1' },
+    })
+      .post('/v1/embeddings')
+      .reply(200, { object: 'list', data: [] });
+
+    await expect(
+      client.createEmbedding(
+        { model: 'text-embedding-3-small', input: 'Hello' },
+        { headers: { 'X-Trace-Id': 'trace-1' }, idempotencyKey: 'embed-1' }
+      )
+    ).resolves.toEqual({ object: 'list', data: [] });
+  });
+
+  test('should send the caller-provided idempotency key only on the first request of a helper', async () => {
+    client.clearContext();
+    client.registerTool({ name: 'noop', handler: () => 'ok' });
+    const keys: string[] = [];
+    const completion = (message: object) => ({
+      id: 'chat-1',
+      object: 'chat.completion',
+      created: 1234567890,
+      model: 'gpt-4o',
+      choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: 'stop' }],
+    });
+    const replies = [
+      completion({
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'noop', arguments: '' } }],
+      }),
+      completion({ content: 'Done.' }),
+      completion({ content: '{"answer":' }),
+      completion({ content: '{"answer":42}' }),
+    ];
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .times(4)
+      .reply(function () {
+        keys.push(this.req.headers['idempotency-key'] as string);
+        return [200, replies[keys.length - 1]];
+      });
+
+    await client.runTools(
+      { model: 'gpt-4o', messages: [{ role: 'user', content: 'Run the job.' }] },
+      { idempotencyKey: 'job-42' }
+    );
+    await client.createStructuredChatCompletion(
+      {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Answer in JSON.' }],
+        maxRepairAttempts: 1,
+      },
+      { idempotencyKey: 'answer-1' }
+    );
+
+    expect(keys[0]).toBe('job-42');
+    expect(keys[1]).toMatch(/^openai-enhanced-sdk-/);
+    expect(keys[2]).toBe('answer-1');
+    expect(keys[3]).toMatch(/^openai-enhanced-sdk-/);
+
+    client.unregisterTool('noop');
+    client.clearContext();
+  });
+
+  test('should not resend an idempotency key given as a header on later tool iterations', async () => {
+    client.clearContext();
+    client.registerTool({ name: 'noop', handler: () => 'ok' });
+    const keys: string[] = [];
+    const completion = (message: object) => ({
+      id: 'chat-1',
+      object: 'chat.completion',
+      created: 1234567890,
+      model: 'gpt-4o',
+      choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: 'stop' }],
+    });
+    const replies = [
+      completion({
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'noop', arguments: '' } }],
+      }),
+      completion({ content: 'Done.' }),
+    ];
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .times(2)
+      .reply(function () {
+        keys.push(this.req.headers['idempotency-key'] as string);
+        return [200, replies[keys.length - 1]];
+      });
+
+    await client.runTools(
+      { model: 'gpt-4o', messages: [{ role: 'user', content: 'Run the job.' }] },
+      { headers: { 'idempotency-key': 'mykey' } }
+    );
+
+    expect(keys[0]).toBe('mykey');
+    expect(keys[1]).toMatch(/^openai-enhanced-sdk-/);
+
+    client.unregisterTool('noop');
+    client.clearContext();
+  });
+
+  test('should not retry when maxRetries is 0', async () => {
+    const scope = nock('https://api.openai.com')
+      .get('/v1/models')
+      .reply(500, { error: { message: 'Server error' } })
+      .get('/v1/models')
+      .reply(200, { data: [], object: 'list' });
+
+    await expect(client.listModels({ maxRetries: 0 })).rejects.toThrow('Server error');
+    expect(scope.isDone()).toBe(false);
+    nock.cleanAll();
+  });
+
+  test('should throw RequestCancelledError when the signal aborts a request', async () => {
+    nock('https://api.openai.com')
+      .get('/v1/models')
+      .delay(1000)
+      .reply(200, { data: [], object: 'list' });
+
+    const controller = new AbortController();
+    const request = client.listModels({ signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(request).rejects.toBeInstanceOf(RequestCancelledError);
+  });
 });
\ No newline at end of file
@@ -0,0 +1,106 @@
+// tests/pagination.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { Page } from '../src/pagination';
+import { FileObject } from '../src/types';
+
+const file = (id: string): FileObject => ({
+  id,
+  object: 'file',
+  bytes: 100,
+  created_at: 1234567890,
+  filename: `${id}.jsonl`,
+  purpose: 'batch',
+});
+
+describe('Pagination', () => {
+  const createClient = () =>
+    new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should return a page shaped like the response body', async () => {
+    const client = createClient();
+    const body = { object: 'list', data: [file('file-1')], has_more: false };
+
+    nock('https://api.openai.com')
+      .get('/v1/files')
+      .query({ purpose: 'batch', limit: 1 })
+      .reply(200, body);
+
+    const page = await client.listFiles({ purpose: 'batch', limit: 1 });
+    expect(page).toBeInstanceOf(Page);
+    expect(page).toEqual(body);
+    expect(JSON.parse(JSON.stringify(page))).toEqual(body);
+    expect(page.hasNextPage()).toBe(false);
+    await expect(page.getNextPage()).rejects.toThrow('No next page');
+  });
+
+  test('should fetch the next page with the same parameters and the last id', async () => {
+    const client = createClient();
+
+    nock('https://api.openai.com')
+      .get('/v1/files')
+      .query({ purpose: 'batch', limit: 2 })
+      .reply(200, { object: 'list', data: [file('file-1'), file('file-2')], has_more: true })
+      .get('/v1/files')
+      .query({ purpose: 'batch', limit: 2, after: 'file-2' })
+      .reply(200, { object: 'list', data: [file('file-3')], has_more: false });
+
+    const page = await client.listFiles({ purpose: 'batch', limit: 2 });
+    expect(page.hasNextPage()).toBe(true);
+
+    const next = await page.getNextPage();
+    expect(next.data.map(({ id }) => id)).toEqual(['file-3']);
+    expect(next.hasNextPage()).toBe(false);
+  });
+
+  test('should iterate over every item, fetching pages only when needed', async () => {
+    const client = createClient();
+    const scope = nock('https://api.openai.com')
+      .get('/v1/fine_tuning/jobs/ftjob-1/checkpoints')
+      .reply(200, {
+        object: 'list',
+        data: [{ id: 'ckpt-3' }, { id: 'ckpt-2' }],
+        has_more: true,
+        last_id: 'ckpt-2',
+      })
+      .get('/v1/fine_tuning/jobs/ftjob-1/checkpoints')
+      .query({ after: 'ckpt-2' })
+      .reply(200, { object: 'list', data: [{ id: 'ckpt-1' }], has_more: false });
+
+    const ids: string[] = [];
+    for await (const checkpoint of await client.listFineTuningCheckpoints('ftjob-1')) {
+      ids.push(checkpoint.id);
+      if (ids.length === 2) {
+        // The second page has not been requested yet
+        expect(scope.pendingMocks()).toHaveLength(1);
+      }
+    }
+
+    expect(ids).toEqual(['ckpt-3', 'ckpt-2', 'ckpt-1']);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  test('should treat unpaginated lists as a single page', async () => {
+    const client = createClient();
+
+    nock('https://api.openai.com')
+      .get('/v1/models')
+      .reply(200, { object: 'list', data: [{ id: 'gpt-4o' }, { id: 'gpt-4o-mini' }] });
+
+    const ids: string[] = [];
+    for await (const model of await client.listModels()) {
+      ids.push(model.id);
+    }
+    expect(ids).toEqual(['gpt-4o', 'gpt-4o-mini']);
+  });
+});
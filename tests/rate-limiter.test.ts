@@ -0,0 +1,110 @@
+// tests/rate-limiter.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { RequestCancelledError } from '../src/errors';
+import { estimateRequestTokens, parseRateLimitHeaders, RateLimiter } from '../src/rate-limiter';
+import { countMessageTokens } from '../src/token-counter';
+import { ChatMessage } from '../src/types';
+
+const rateLimitHeaders = {
+  'x-ratelimit-limit-requests': '500',
+  'x-ratelimit-remaining-requests': '499',
+  'x-ratelimit-reset-requests': '120ms',
+  'x-ratelimit-limit-tokens': '30000',
+  'x-ratelimit-remaining-tokens': '29000',
+  'x-ratelimit-reset-tokens': '2s',
+};
+
+describe('Rate limits', () => {
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should parse the rate-limit headers', () => {
+    expect(parseRateLimitHeaders(rateLimitHeaders, 1000)).toEqual({
+      requests: { limit: 500, remaining: 499, resetAt: 1120 },
+      tokens: { limit: 30000, remaining: 29000, resetAt: 3000 },
+      updatedAt: 1000,
+    });
+    expect(parseRateLimitHeaders({ 'content-type': 'application/json' })).toBeUndefined();
+  });
+
+  test('should estimate prompt and completion tokens of a request', () => {
+    const messages: ChatMessage[] = [{ role: 'user', content: 'Hello, world!' }];
+    const chat = estimateRequestTokens({ model: 'gpt-4o', messages, max_tokens: 100 });
+    expect(chat).toBe(countMessageTokens(messages, 'gpt-4o') + 100);
+
+    expect(estimateRequestTokens({ model: 'gpt-4o', input: ['Hello', 'world'] })).toBe(2);
+    expect(estimateRequestTokens({ model: 'gpt-4o', input: [[1, 2, 3]] })).toBe(3);
+    expect(estimateRequestTokens(null)).toBe(0);
+  });
+
+  test('should queue requests beyond the requests-per-minute budget', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+    const granted: number[] = [];
+
+    [1, 2, 3].forEach((id) => limiter.acquire().then(() => granted.push(id)));
+    await Promise.resolve();
+    expect(granted).toEqual([1, 2]);
+
+    // One request is replenished every 30 seconds
+    await jest.advanceTimersByTimeAsync(29000);
+    expect(granted).toEqual([1, 2]);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([1, 2, 3]);
+  });
+
+  test('should wait for the token budget and follow the server-reported remaining tokens', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter({ tokensPerMinute: 6000 });
+    limiter.sync({ requests: {}, tokens: { remaining: 1000 }, updatedAt: Date.now() });
+
+    const granted = jest.fn();
+    limiter.acquire(2000).then(granted);
+    await jest.advanceTimersByTimeAsync(9000);
+    expect(granted).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(granted).toHaveBeenCalled();
+  });
+
+  test('should reject a queued request when its signal aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const queued = limiter.acquire(0, controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+
+  test('should expose the rate limits of the latest response', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      rateLimit: { requestsPerMinute: 100 },
+    });
+    expect(client.getRateLimits()).toBeUndefined();
+
+    nock('https://api.openai.com')
+      .get('/v1/models')
+      .reply(200, { data: [], object: 'list' }, rateLimitHeaders);
+
+    await client.listModels();
+
+    expect(client.getRateLimits()).toMatchObject({
+      requests: { limit: 500, remaining: 499 },
+      tokens: { limit: 30000, remaining: 29000 },
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// tests/retry-policy.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import FormData from 'form-data';
+import { Readable } from 'stream';
+import {
+  ConnectionError,
+  InternalServerError,
+  RateLimitError,
+  RequestCancelledError,
+  ValidationError,
+} from '../src/errors';
+import {
+  computeRetryDelay,
+  createRetryPolicy,
+  isRetryableError,
+  isRetryableRequestError,
+  parseResetDuration,
+  serverRetryDelay,
+} from '../src/retry-policy';
+
+describe('Retry policy', () => {
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should parse rate-limit reset durations', () => {
+    expect(parseResetDuration('1s')).toBe(1000);
+    expect(parseResetDuration('6m0s')).toBe(360000);
+    expect(parseResetDuration('20ms')).toBe(20);
+    expect(parseResetDuration('1h2m3.5s')).toBe(3723500);
+    expect(parseResetDuration('soon')).toBeUndefined();
+    expect(parseResetDuration('')).toBeUndefined();
+  });
+
+  test('should tell which errors of client calls are worth retrying', () => {
+    expect(isRetryableError(new InternalServerError('Server error', 500))).toBe(true);
+    expect(isRetryableError(new ConnectionError('Network error'))).toBe(true);
+    expect(isRetryableError(new ValidationError('Bad request', 400))).toBe(false);
+    expect(isRetryableError(new RequestCancelledError('Request was cancelled'))).toBe(false);
+    expect(isRetryableError(new Error('Unrelated'))).toBe(false);
+  });
+
+  test('should read server-provided delays in order of precedence', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(serverRetryDelay({ 'retry-after-ms': '250', 'retry-after': '9' })).toBe(250);
+    expect(serverRetryDelay({ 'retry-after': '2' })).toBe(2000);
+    expect(serverRetryDelay({ 'retry-after': 'Mon, 01 Jan 2024 00:00:03 GMT' }, now)).toBe(3000);
+    expect(
+      serverRetryDelay({
+        'x-ratelimit-remaining-requests': '0',
+        'x-ratelimit-reset-requests': '1s',
+        'x-ratelimit-remaining-tokens': '100',
+        'x-ratelimit-reset-tokens': '30s',
+      })
+    ).toBe(1000);
+    expect(serverRetryDelay({ 'x-ratelimit-reset-tokens': '30s' })).toBeUndefined();
+  });
+
+  test('should add jitter to exponential backoff and server delays', () => {
+    const random = jest.spyOn(Math, 'random');
+
+    random.mockReturnValue(0);
+    expect(computeRetryDelay(3, {}, { initialDelay: 100 })).toBe(400);
+    expect(computeRetryDelay(10, {}, { initialDelay: 100, maxDelay: 1000 })).toBe(1000);
+
+    random.mockReturnValue(1);
+    expect(computeRetryDelay(1, {}, { initialDelay: 100 })).toBe(75);
+    expect(computeRetryDelay(1, { 'retry-after-ms': '1000' })).toBe(1100);
+
+    random.mockRestore();
+  });
+
+  test('should retry a 429 after the server-provided delay and log the attempt', async () => {
+    const client = new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+    const log = jest.spyOn(client as any, 'log');
+
+    nock('https://api.openai.com')
+      .get('/v1/models')
+      .reply(429, { error: { message: 'Rate limit reached' } }, { 'retry-after-ms': '10' })
+      .get('/v1/models')
+      .reply(200, { data: [], object: 'list' });
+
+    await expect(client.listModels()).resolves.toEqual({ data: [], object: 'list' });
+    expect(log).toHaveBeenCalledWith(
+      'warn',
+      expect.stringMatching(/^Retrying GET \/models in 1\dms \(attempt 1\/3\): status 429$/),
+      expect.objectContaining({ method: 'GET', endpoint: '/models', status: 429, attempt: 1 })
+    );
+  });
+
+  test('should stop retrying once the total wait would exceed the budget', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      retry: { maxTotalDelay: 1000 },
+    });
+    const scope = nock('https://api.openai.com')
+      .get('/v1/models')
+      .reply(503, { error: { message: 'Overloaded' } }, { 'retry-after': '5' })
+      .get('/v1/models')
+      .reply(200, { data: [], object: 'list' });
+
+    await expect(client.listModels()).rejects.toThrow('Overloaded');
+    expect(scope.isDone()).toBe(false);
+    nock.cleanAll();
+  });
+
+  test('should not retry client errors', () => {
+    const { retryCondition } = createRetryPolicy({}, jest.fn());
+    const errorWithStatus = (status: number) => ({ response: { status, headers: {} }, config: {} });
+
+    expect(retryCondition!(errorWithStatus(400) as any)).toBe(false);
+    expect(retryCondition!(errorWithStatus(404) as any)).toBe(false);
+    expect(retryCondition!(errorWithStatus(409) as any)).toBe(true);
+    expect(retryCondition!(errorWithStatus(500) as any)).toBe(true);
+  });
+
+  test('should not retry requests whose stream body was used up', async () => {
+    const failedWith = (data: unknown) => ({
+      response: { status: 503, headers: {} },
+      config: { data },
+    });
+    expect(isRetryableRequestError(failedWith(new FormData()) as any)).toBe(false);
+    expect(isRetryableRequestError(failedWith(Readable.from(['data'])) as any)).toBe(false);
+    expect(isRetryableRequestError(failedWith('{"model":"gpt-4o"}') as any)).toBe(true);
+
+    const client = new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+    const scope = nock('https://api.openai.com')
+      .post('/v1/files')
+      .reply(429, { error: { message: 'Rate limit reached' } }, { 'retry-after-ms': '10' })
+      .post('/v1/files')
+      .reply(200, { id: 'file-1', object: 'file' });
+
+    await expect(
+      client.uploadFile({ file: Buffer.from('{"a":1}'), purpose: 'batch' })
+    ).rejects.toBeInstanceOf(RateLimitError);
+    expect(scope.isDone()).toBe(false);
+    nock.cleanAll();
+  });
+});
@@ -0,0 +1,92 @@
+// tests/sse.test.ts
+
+import { SSEDecoder, iterateJsonEvents } from '../src/sse';
+import { APIError, OpenAIError } from '../src/errors';
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+};
+
+async function* chunksOf(...chunks: Array<string | Buffer>) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+describe('SSEDecoder', () => {
+  test('should decode fields, comments and multi-line data', () => {
+    const decoder = new SSEDecoder();
+    const events = decoder.decode(
+      ': keep-alive\nevent: update\nid: 7\nretry: 1000\ndata: first\ndata:second\n\n'
+    );
+
+    expect(events).toEqual([{ event: 'update', data: 'first\nsecond', id: '7', retry: 1000 }]);
+  });
+
+  test('should handle CRLF and CR line endings split across chunks', () => {
+    const decoder = new SSEDecoder();
+
+    expect(decoder.decode('data: a\r')).toEqual([]);
+    expect(decoder.decode('\n\r')).toEqual([]);
+    expect(decoder.decode('\ndata: b\r\r')).toEqual([{ event: null, data: 'a', id: null }]);
+    expect(decoder.flush()).toEqual([{ event: null, data: 'b', id: null }]);
+  });
+
+  test('should decode UTF-8 characters split across chunks', () => {
+    const decoder = new SSEDecoder();
+    const bytes = Buffer.from('data: café ☕\n\n');
+    const split = bytes.indexOf(Buffer.from('☕')) + 1;
+
+    expect(decoder.decode(bytes.subarray(0, split))).toEqual([]);
+    expect(decoder.decode(bytes.subarray(split))).toEqual([
+      { event: null, data: 'café ☕', id: null },
+    ]);
+  });
+
+  test('should discard an event that is not terminated when the stream ends', () => {
+    const decoder = new SSEDecoder();
+
+    expect(decoder.decode('data: complete\n\ndata: partial\n')).toHaveLength(1);
+    expect(decoder.flush()).toEqual([]);
+  });
+});
+
+describe('iterateJsonEvents', () => {
+  test('should parse JSON payloads and stop at [DONE]', async () => {
+    const events = await collect(
+      iterateJsonEvents(
+        chunksOf('data: {"n":1}\n\ndata:{"n"', ':2}\n\ndata: [DONE]\n\ndata: {"n":3}\n\n')
+      )
+    );
+
+    expect(events).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  test('should throw an APIError for error payloads', async () => {
+    const stream = iterateJsonEvents(
+      chunksOf('data: {"error":{"message":"Server overloaded","type":"server_error"}}\n\n')
+    );
+
+    const error = await collect(stream).catch((e) => e);
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.message).toBe('Server overloaded');
+    expect(error.data).toEqual({ message: 'Server overloaded', type: 'server_error' });
+  });
+
+  test('should throw an APIError for error events', async () => {
+    await expect(
+      collect(iterateJsonEvents(chunksOf('event: error\ndata: Internal error\n\n')))
+    ).rejects.toThrow(APIError);
+  });
+
+  test('should throw an OpenAIError for malformed JSON', async () => {
+    const error = await collect(iterateJsonEvents(chunksOf('data: {not json\n\n'))).catch((e) => e);
+
+    expect(error).toBeInstanceOf(OpenAIError);
+    expect(error.message).toMatch(/^Could not parse stream event/);
+  });
+});
@@ -0,0 +1,201 @@
+// tests/streams.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { PassThrough } from 'stream';
+import { RequestCancelledError } from '../src/errors';
+import { ChatCompletionStream, CompletionStream } from '../src/streams';
+import { ChatCompletionStreamResponse } from '../src/types';
+
+const sse = (chunks: object[]) =>
+  chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+const chatChunk = (
+  delta: ChatCompletionStreamResponse['choices'][0]['delta'],
+  finishReason: string | null = null
+) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion.chunk',
+  created: 1234567890,
+  model: 'gpt-4o',
+  choices: [{ index: 0, delta, finish_reason: finishReason }],
+});
+
+const chatChunks = [
+  chatChunk({ role: 'assistant', content: '' }),
+  chatChunk({ content: 'Hello' }),
+  chatChunk({ content: ', world!' }),
+  chatChunk({}, 'stop'),
+  {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1234567890,
+    model: 'gpt-4o',
+    choices: [],
+    usage: { prompt_tokens: 5, completion_tokens: 4, total_tokens: 9 },
+  },
+];
+
+describe('Streams', () => {
+  const client = new OpenAIClient('test-api-key', { loggingOptions: { logLevel: 'error' } });
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  const mockChatStream = (chunks: object[] = chatChunks) =>
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, sse(chunks), { 'Content-Type': 'text/event-stream' });
+
+  const createChatStream = async () =>
+    (await client.createChatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Say hello.' }],
+      stream: true,
+      stream_options: { include_usage: true },
+    })) as ChatCompletionStream;
+
+  test('should notify listeners and rebuild the final response', async () => {
+    mockChatStream();
+    const stream = await createChatStream();
+
+    const texts: Array<[string, string]> = [];
+    const onChunk = jest.fn();
+    const onDone = jest.fn();
+    stream
+      .onText((delta, snapshot) => texts.push([delta, snapshot]))
+      .onChunk(onChunk)
+      .onDone(onDone);
+
+    const response = await stream.finalResponse();
+
+    expect(texts).toEqual([
+      ['Hello', 'Hello'],
+      [', world!', 'Hello, world!'],
+    ]);
+    expect(onChunk).toHaveBeenCalledTimes(chatChunks.length);
+    expect(onDone).toHaveBeenCalledWith(response);
+    expect(response).toEqual({
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1234567890,
+      model: 'gpt-4o',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'Hello, world!' },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: { prompt_tokens: 5, completion_tokens: 4, total_tokens: 9 },
+    });
+    expect(await stream.finalMessage()).toEqual({ role: 'assistant', content: 'Hello, world!' });
+  });
+
+  test('should still be iterable chunk by chunk', async () => {
+    mockChatStream();
+    const stream = await createChatStream();
+
+    const chunks: ChatCompletionStreamResponse[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toHaveLength(chatChunks.length);
+    expect((await stream.finalResponse()).choices[0].message?.content).toBe('Hello, world!');
+  });
+
+  test('should reject the final response when iteration stops early', async () => {
+    mockChatStream();
+    const stream = await createChatStream();
+    const onError = jest.fn();
+    stream.onError(onError);
+
+    for await (const chunk of stream) {
+      if (chunk.choices[0]?.delta.content === 'Hello') break;
+    }
+
+    await expect(stream.finalResponse()).rejects.toThrow('Stream was closed before it completed');
+    expect(onError).toHaveBeenCalled();
+  });
+
+  test('should cancel a stream that is still receiving chunks', async () => {
+    // The body stays open so only the abort can end the stream
+    const body = new PassThrough();
+    body.write(sse([chatChunks[1]]).replace('data: [DONE]\n\n', ''));
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, () => body, { 'Content-Type': 'text/event-stream' });
+
+    const stream = await createChatStream();
+    const onError = jest.fn();
+    stream.onError(onError);
+
+    const iterate = async () => {
+      for await (const chunk of stream) {
+        if (chunk.choices[0]?.delta.content === 'Hello') stream.abort();
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(RequestCancelledError);
+    await expect(stream.finalResponse()).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  test('should cancel a stream through the caller signal', async () => {
+    const body = new PassThrough();
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions')
+      .reply(200, () => body, { 'Content-Type': 'text/event-stream' });
+
+    const controller = new AbortController();
+    const stream = (await client.createChatCompletion(
+      { model: 'gpt-4o', messages: [{ role: 'user', content: 'Say hello.' }], stream: true },
+      { signal: controller.signal }
+    )) as ChatCompletionStream;
+
+    const response = stream.finalResponse();
+    controller.abort();
+
+    await expect(response).rejects.toThrow('Stream was cancelled');
+  });
+
+  test('should aggregate a legacy completion stream', async () => {
+    const completionChunk = (text: string, finishReason: string | null = null) => ({
+      id: 'cmpl-1',
+      object: 'text_completion',
+      created: 1234567890,
+      model: 'gpt-3.5-turbo-instruct',
+      choices: [{ text, index: 0, logprobs: null, finish_reason: finishReason }],
+    });
+
+    nock('https://api.openai.com')
+      .post('/v1/completions')
+      .reply(
+        200,
+        sse([
+          completionChunk('Once'),
+          completionChunk(' upon'),
+          completionChunk(' a time', 'stop'),
+        ]),
+        { 'Content-Type': 'text/event-stream' }
+      );
+
+    const stream = (await client.createCompletion({
+      model: 'gpt-3.5-turbo-instruct',
+      prompt: 'Tell me a story',
+      stream: true,
+    })) as CompletionStream;
+
+    const onText = jest.fn();
+    expect(await stream.onText(onText).finalText()).toBe('Once upon a time');
+    expect(onText).toHaveBeenCalledTimes(3);
+    expect((await stream.finalResponse()).choices[0].finish_reason).toBe('stop');
+  });
+});
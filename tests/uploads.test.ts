@@ -0,0 +1,192 @@
+// tests/uploads.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { UploadError } from '../src/errors';
+import { guessMimeType, planParts } from '../src/uploads';
+import { UploadProgress } from '../src/types';
+
+const CONTENT = 'aaaaaaaaaabbbbbbbbbbccccc';
+
+const upload = (overrides = {}) => ({
+  id: 'upload_1',
+  object: 'upload',
+  bytes: CONTENT.length,
+  created_at: 1234567890,
+  filename: 'training.jsonl',
+  purpose: 'fine-tune',
+  status: 'pending',
+  expires_at: 1234571490,
+  ...overrides,
+});
+
+const file = { id: 'file-1', object: 'file', bytes: CONTENT.length, filename: 'training.jsonl' };
+
+// Matches the multipart request of the part with the given content
+const part = (content: string) => (body: string) => body.includes(content);
+
+describe('Uploads', () => {
+  let directory: string;
+  let filePath: string;
+
+  const createClient = () =>
+    new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      retry: { initialDelay: 1, maxDelay: 1 },
+    });
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-uploads-'));
+    filePath = path.join(directory, 'training.jsonl');
+    fs.writeFileSync(filePath, CONTENT);
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should split files into parts and guess MIME types', () => {
+    expect(planParts(25, 10)).toEqual([
+      { index: 0, start: 0, end: 9, size: 10 },
+      { index: 1, start: 10, end: 19, size: 10 },
+      { index: 2, start: 20, end: 24, size: 5 },
+    ]);
+    expect(planParts(0, 10)).toEqual([]);
+    expect(() => planParts(25, 0)).toThrow('Part size must be between');
+    expect(guessMimeType('data/batch.JSONL')).toBe('application/jsonl');
+    expect(guessMimeType('archive.bin')).toBe('application/octet-stream');
+  });
+
+  test('should upload parts and complete the upload in order with the MD5', async () => {
+    const client = createClient();
+    const progress: UploadProgress[] = [];
+    const md5 = createHash('md5').update(CONTENT).digest('hex');
+
+    nock('https://api.openai.com')
+      .post('/v1/uploads', {
+        filename: 'training.jsonl',
+        purpose: 'fine-tune',
+        bytes: 25,
+        mime_type: 'application/jsonl',
+      })
+      .reply(200, upload())
+      .post('/v1/uploads/upload_1/parts', part('aaaaaaaaaa'))
+      .reply(200, { id: 'part_a', object: 'upload.part' })
+      .post('/v1/uploads/upload_1/parts', part('bbbbbbbbbb'))
+      .reply(200, { id: 'part_b', object: 'upload.part' })
+      .post('/v1/uploads/upload_1/parts', part('ccccc'))
+      .reply(200, { id: 'part_c', object: 'upload.part' })
+      .post('/v1/uploads/upload_1/complete', { part_ids: ['part_a', 'part_b', 'part_c'], md5 })
+      .reply(200, upload({ status: 'completed', file }));
+
+    const result = await client.uploadLargeFile({
+      filePath,
+      purpose: 'fine-tune',
+      partSize: 10,
+      concurrency: 2,
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(result).toEqual(file);
+    expect(progress[progress.length - 1]).toEqual({ bytesSent: 25, totalBytes: 25 });
+  });
+
+  test('should retry a failed part without counting its bytes twice', async () => {
+    const client = createClient();
+    const progress: number[] = [];
+
+    nock('https://api.openai.com')
+      .post('/v1/uploads')
+      .reply(200, upload())
+      .post('/v1/uploads/upload_1/parts', part('aaaaaaaaaa'))
+      .reply(503, { error: { message: 'Unavailable' } })
+      .post('/v1/uploads/upload_1/parts', part('aaaaaaaaaa'))
+      .reply(200, { id: 'part_a', object: 'upload.part' })
+      .post('/v1/uploads/upload_1/parts', part('bbbbbbbbbb'))
+      .reply(200, { id: 'part_b', object: 'upload.part' })
+      .post('/v1/uploads/upload_1/parts', part('ccccc'))
+      .reply(200, { id: 'part_c', object: 'upload.part' })
+      .post(
+        '/v1/uploads/upload_1/complete',
+        (body) => body.part_ids.join() === 'part_a,part_b,part_c'
+      )
+      .reply(200, upload({ status: 'completed', file }));
+
+    await client.uploadLargeFile({
+      filePath,
+      purpose: 'fine-tune',
+      partSize: 10,
+      concurrency: 1,
+      checksum: false,
+      onProgress: ({ bytesSent }) => progress.push(bytesSent),
+    });
+
+    expect(Math.max(...progress)).toBe(25);
+    expect(progress[progress.length - 1]).toBe(25);
+  });
+
+  test('should report the parts sent so far and resume from them', async () => {
+    const client = createClient();
+
+    nock('https://api.openai.com')
+      .post('/v1/uploads')
+      .reply(200, upload())
+      .post('/v1/uploads/upload_1/parts', part('aaaaaaaaaa'))
+      .reply(200, { id: 'part_a', object: 'upload.part' })
+      .post('/v1/uploads/upload_1/parts', part('bbbbbbbbbb'))
+      .reply(400, { error: { message: 'Invalid part' } });
+
+    const options = { filePath, purpose: 'fine-tune', partSize: 10, concurrency: 1 };
+    const error = await client.uploadLargeFile(options).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.message).toBe('Upload upload_1 failed after 1 of 3 parts: Invalid part');
+    expect(error.uploadId).toBe('upload_1');
+    expect(error.partIds).toEqual(['part_a', undefined, undefined]);
+
+    nock('https://api.openai.com')
+      .post('/v1/uploads/upload_1/parts', part('bbbbbbbbbb'))
+      .reply(200, { id: 'part_b', object: 'upload.part' })
+      .post('/v1/uploads/upload_1/parts', part('ccccc'))
+      .reply(200, { id: 'part_c', object: 'upload.part' })
+      .post(
+        '/v1/uploads/upload_1/complete',
+        (body) => body.part_ids.join() === 'part_a,part_b,part_c'
+      )
+      .reply(200, upload({ status: 'completed', file }));
+
+    await expect(
+      client.uploadLargeFile({
+        ...options,
+        resume: { uploadId: error.uploadId, partIds: error.partIds },
+      })
+    ).resolves.toEqual(file);
+  });
+
+  test('should report the progress of uploadFile', async () => {
+    const client = createClient();
+    const progress: UploadProgress[] = [];
+
+    nock('https://api.openai.com')
+      .post(
+        '/v1/files',
+        (body) => body.includes(CONTENT) && body.includes('filename="training.jsonl"')
+      )
+      .reply(200, file);
+
+    await client.uploadFile({
+      filePath,
+      purpose: 'fine-tune',
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(progress[progress.length - 1]).toEqual({ bytesSent: 25, totalBytes: 25 });
+  });
+});
@@ -0,0 +1,182 @@
+// tests/usage-tracker.test.ts
+
+import OpenAIClient from '../src/openai-client';
+import nock from 'nock';
+import { ChatCompletionStream } from '../src/streams';
+import { readUsage, UsageTracker } from '../src/usage-tracker';
+
+const prices = {
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+};
+
+describe('Usage tracking', () => {
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  test('should read chat, embedding and input/output usage', () => {
+    expect(readUsage({ prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 })).toEqual({
+      promptTokens: 3,
+      completionTokens: 2,
+      totalTokens: 5,
+    });
+    expect(readUsage({ prompt_tokens: 8, total_tokens: 8 })).toEqual({
+      promptTokens: 8,
+      completionTokens: 0,
+      totalTokens: 8,
+    });
+    expect(readUsage({ input_tokens: 4, output_tokens: 6 })).toMatchObject({ totalTokens: 10 });
+    expect(readUsage(null)).toBeUndefined();
+  });
+
+  test('should aggregate usage and cost per model, endpoint and tag', () => {
+    const tracker = new UsageTracker({ prices });
+    const usage = { prompt_tokens: 1000000, completion_tokens: 100000, total_tokens: 1100000 };
+
+    tracker.record(usage, { model: 'gpt-4o-2024-08-06', endpoint: '/chat/completions', tag: 'a' });
+    tracker.record(usage, { model: 'gpt-4o-mini', endpoint: '/chat/completions', tag: 'b' });
+    tracker.record(usage, { model: 'text-embedding-3-small', endpoint: '/embeddings' });
+    tracker.record(undefined, { model: 'gpt-4o', endpoint: '/chat/completions' });
+
+    const report = tracker.snapshot();
+    expect(report.total).toMatchObject({ requests: 3, promptTokens: 3000000 });
+    expect(report.total.cost).toBeCloseTo(3.5 + 0.21);
+    expect(report.byModel['gpt-4o-2024-08-06'].cost).toBeCloseTo(3.5);
+    expect(report.byModel['gpt-4o-mini'].cost).toBeCloseTo(0.21);
+    expect(report.byModel['text-embedding-3-small'].cost).toBe(0);
+    expect(report.byEndpoint['/chat/completions'].requests).toBe(2);
+    expect(Object.keys(report.byTag)).toEqual(['a', 'b']);
+  });
+
+  test('should price exact names and dated snapshots only', () => {
+    const tracker = new UsageTracker({ prices: { 'gpt-4o': prices['gpt-4o'] } });
+    const usage = { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 };
+
+    expect(tracker.estimateCost('gpt-4o', usage)).toBeCloseTo(2.5);
+    expect(tracker.estimateCost('gpt-4o-2024-08-06', usage)).toBeCloseTo(2.5);
+    expect(tracker.estimateCost('gpt-4o-mini', usage)).toBe(0);
+    expect(tracker.estimateCost('gpt-4o-mini-2024-07-18', usage)).toBe(0);
+  });
+
+  test('should return the finished period on reset', () => {
+    const tracker = new UsageTracker();
+    tracker.record({ prompt_tokens: 5, total_tokens: 5 }, { endpoint: '/embeddings' });
+
+    const snapshot = tracker.snapshot();
+    snapshot.total.requests = 99;
+
+    expect(tracker.reset().total.requests).toBe(1);
+    expect(tracker.snapshot().total.requests).toBe(0);
+    expect(tracker.snapshot().byModel).toEqual({});
+  });
+
+  test('should track the usage of client calls under their tag', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      usageTracking: { prices },
+    });
+
+    nock('https://api.openai.com')
+      .post('/v1/embeddings')
+      .reply(200, {
+        object: 'list',
+        data: [],
+        model: 'text-embedding-3-small',
+        usage: { prompt_tokens: 8, total_tokens: 8 },
+      });
+
+    await client.createEmbedding(
+      { model: 'text-embedding-3-small', input: 'Hello' },
+      { usageTag: 'indexing' }
+    );
+
+    expect(client.getUsage()).toMatchObject({
+      total: { requests: 1, promptTokens: 8, totalTokens: 8 },
+      byEndpoint: { '/embeddings': { requests: 1 } },
+      byTag: { indexing: { requests: 1 } },
+    });
+    expect(client.resetUsage()?.total.requests).toBe(1);
+    expect(client.getUsage()?.total.requests).toBe(0);
+  });
+
+  test('should request and record the usage of a stream when opted in', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      usageTracking: { prices, includeStreamUsage: true },
+    });
+    const chunk = {
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 1234567890,
+      model: 'gpt-4o-mini',
+    };
+    const events = [
+      { ...chunk, choices: [{ index: 0, delta: { content: 'Hi' }, finish_reason: 'stop' }] },
+      {
+        ...chunk,
+        choices: [],
+        usage: { prompt_tokens: 10, completion_tokens: 1, total_tokens: 11 },
+      },
+    ];
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => body.stream_options?.include_usage === true)
+      .reply(
+        200,
+        events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n',
+        { 'Content-Type': 'text/event-stream' }
+      );
+
+    const stream = (await client.createChatCompletion({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+      stream: true,
+    })) as ChatCompletionStream;
+    await stream.finalMessage();
+
+    expect(client.getUsage()?.byModel['gpt-4o-mini']).toMatchObject({
+      requests: 1,
+      promptTokens: 10,
+      completionTokens: 1,
+    });
+  });
+
+  test('should leave stream_options alone unless opted in', async () => {
+    const client = new OpenAIClient('test-api-key', {
+      loggingOptions: { logLevel: 'error' },
+      usageTracking: { prices },
+    });
+    const chunk = {
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 1234567890,
+      model: 'gpt-4o-mini',
+      choices: [{ index: 0, delta: { content: 'Hi' }, finish_reason: 'stop' }],
+    };
+
+    nock('https://api.openai.com')
+      .post('/v1/chat/completions', (body) => body.stream_options === undefined)
+      .reply(200, `data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, {
+        'Content-Type': 'text/event-stream',
+      });
+
+    const stream = (await client.createChatCompletion({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+      stream: true,
+    })) as ChatCompletionStream;
+    const chunks = [];
+    for await (const received of stream) {
+      chunks.push(received);
+    }
+
+    expect(chunks).toHaveLength(1);
+    expect(client.getUsage()?.total.requests).toBe(0);
+  });
+});